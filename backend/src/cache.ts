@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { INGEST_MANIFEST_PATH } from './ingestManifest.js';
+import type { KnowledgeBaseAnswer } from './knowledgeBase.js';
+import type { RetrievalResult } from './retrieval.js';
+
+// --- CONFIGURATION ---
+// CACHE                     'off' disables every cache.
+// EMBEDDING_CACHE_SIZE      Query embeddings kept (least recently used are evicted first).
+// RETRIEVAL_CACHE_SIZE      Retrieval results kept.
+// ANSWER_CACHE_SIZE         Generated answers kept.
+// ANSWER_CACHE_TTL_SECONDS  How long a retrieval result or answer stays valid.
+// CACHE_DIR                 Optional directory to persist the caches across restarts; in memory only if unset.
+const CACHE_ENABLED = process.env.CACHE !== 'off';
+const EMBEDDING_CACHE_SIZE = Number(process.env.EMBEDDING_CACHE_SIZE || 1000);
+const RETRIEVAL_CACHE_SIZE = Number(process.env.RETRIEVAL_CACHE_SIZE || 500);
+const ANSWER_CACHE_SIZE = Number(process.env.ANSWER_CACHE_SIZE || 500);
+const ANSWER_CACHE_TTL_MS = Number(process.env.ANSWER_CACHE_TTL_SECONDS || 3600) * 1000;
+const CACHE_DIR = process.env.CACHE_DIR;
+
+// Persisted caches are written at most this often, so a burst of misses causes one write
+const PERSIST_DELAY_MS = 1000;
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    evictions: number; // Entries dropped because the cache was full
+    size: number;
+    maxEntries: number;
+}
+
+export interface Cache<T> {
+    /** Name used in logs and stats (e.g. "answers"). */
+    readonly name: string;
+
+    /** Returns the value, or undefined if it is missing or expired. Counts a hit or a miss. */
+    get(key: string): T | undefined;
+
+    /** Stores a value, evicting the least recently used entry if the cache is full. */
+    set(key: string, value: T): void;
+
+    /** Drops every entry. Counters are kept. */
+    clear(): void;
+
+    stats(): CacheStats;
+}
+
+interface CacheOptions {
+    maxEntries: number;
+    ttlMs?: number; // Omit for entries that never expire
+    filePath?: string; // Where to persist entries. Omit to keep them in memory only.
+}
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number | null;
+}
+
+/**
+ * Creates an LRU cache with an optional TTL, optionally mirrored to a JSON file.
+ * A Map keeps insertion order, so re-inserting an entry on every hit makes the first key the least recently used.
+ * @param name Name used in logs and stats.
+ * @param options Size, TTL and persistence path.
+ */
+export function createLruCache<T>(name: string, { maxEntries, ttlMs, filePath }: CacheOptions): Cache<T> {
+    const entries = new Map<string, CacheEntry<T>>();
+    const counters = { hits: 0, misses: 0, evictions: 0 };
+    let persistTimer: NodeJS.Timeout | null = null;
+
+    if (filePath && fs.existsSync(filePath)) {
+        try {
+            const saved: [string, CacheEntry<T>][] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            const now = Date.now();
+            saved.filter(([, entry]) => entry.expiresAt === null || entry.expiresAt > now)
+                .slice(-maxEntries)
+                .forEach(([key, entry]) => entries.set(key, entry));
+            console.log(`[Cache] Loaded ${entries.size} ${name} entries from ${filePath}`);
+        } catch (error) {
+            console.warn(`[Cache] Could not read ${filePath}. Starting empty.`, error);
+        }
+    }
+
+    const persist = () => {
+        if (!filePath || persistTimer) return;
+        persistTimer = setTimeout(() => {
+            persistTimer = null;
+            try {
+                fs.mkdirSync(path.dirname(filePath), { recursive: true });
+                fs.writeFileSync(filePath, JSON.stringify([...entries]));
+            } catch (error) {
+                console.warn(`[Cache] Could not write ${filePath}.`, error);
+            }
+        }, PERSIST_DELAY_MS);
+        persistTimer.unref();
+    };
+
+    return {
+        name,
+
+        get(key: string) {
+            const entry = entries.get(key);
+            if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+                if (entry) entries.delete(key);
+                counters.misses++;
+                return undefined;
+            }
+            entries.delete(key);
+            entries.set(key, entry);
+            counters.hits++;
+            return entry.value;
+        },
+
+        set(key: string, value: T) {
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+                counters.evictions++;
+            }
+            persist();
+        },
+
+        clear() {
+            entries.clear();
+            persist();
+        },
+
+        stats() {
+            return { ...counters, size: entries.size, maxEntries };
+        },
+    };
+}
+
+/**
+ * Creates a cache that stores nothing, for when caching is turned off.
+ */
+function createDisabledCache<T>(name: string): Cache<T> {
+    let misses = 0;
+    return {
+        name,
+        get() { misses++; return undefined; },
+        set() {},
+        clear() {},
+        stats() { return { hits: 0, misses, evictions: 0, size: 0, maxEntries: 0 }; },
+    };
+}
+
+function createCache<T>(name: string, options: Omit<CacheOptions, 'filePath'>): Cache<T> {
+    if (!CACHE_ENABLED || options.maxEntries <= 0) return createDisabledCache(name);
+    return createLruCache(name, { ...options, filePath: CACHE_DIR ? path.join(CACHE_DIR, `${name}.json`) : undefined });
+}
+
+/**
+ * Normalizes a query for use as a cache key, so "What is your return policy?" and
+ * "what is your return  policy" share an entry: lower case, punctuation dropped, whitespace collapsed.
+ */
+export function normalizeQuery(query: string): string {
+    return query.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// --- THE PROCESS-WIDE CACHES ---
+// Query embeddings only depend on the text and the embedder, so they never expire. Retrieval
+// results and answers depend on the index, so they expire after a TTL and are dropped whenever
+// ingestion changes the index.
+export const embeddingCache = createCache<number[]>('embeddings', { maxEntries: EMBEDDING_CACHE_SIZE });
+export const retrievalCache = createCache<RetrievalResult>('retrieval', { maxEntries: RETRIEVAL_CACHE_SIZE, ttlMs: ANSWER_CACHE_TTL_MS });
+export const answerCache = createCache<KnowledgeBaseAnswer>('answers', { maxEntries: ANSWER_CACHE_SIZE, ttlMs: ANSWER_CACHE_TTL_MS });
+
+// The index version (see invalidateIfIndexChanged) when the index-dependent caches were last known valid.
+// Persisted caches start unverified, so entries written before a re-ingestion are never served.
+let indexVersion: string | null | undefined;
+
+/**
+ * Drops cached retrieval results and answers if the index changed since they were cached.
+ * Ingestion rewrites its manifest whenever it writes to the index, so the manifest's modification
+ * time versions ingested data. The local store rebuilds itself from its seed without ingestion, so
+ * the seed's fingerprint is part of the version too. Cheap enough (one stat) to call on every query.
+ * @param storeFingerprint The fingerprint of the data the store is (re)built from, if it has one.
+ */
+export function invalidateIfIndexChanged(storeFingerprint?: string): void {
+    const manifestTime = fs.existsSync(INGEST_MANIFEST_PATH) ? fs.statSync(INGEST_MANIFEST_PATH).mtimeMs : null;
+    const version = `${manifestTime}|${storeFingerprint ?? ''}`;
+    const versionFile = CACHE_DIR ? path.join(CACHE_DIR, 'index-version.json') : null;
+    if (indexVersion === undefined && versionFile && fs.existsSync(versionFile)) {
+        indexVersion = JSON.parse(fs.readFileSync(versionFile, 'utf-8'));
+    }
+    if (version === indexVersion) return;
+
+    if (indexVersion !== undefined || retrievalCache.stats().size > 0 || answerCache.stats().size > 0) {
+        console.log(`[Cache] The index changed (${INGEST_MANIFEST_PATH} or its source data). Dropping cached retrieval results and answers.`);
+    }
+    retrievalCache.clear();
+    answerCache.clear();
+    indexVersion = version;
+    if (versionFile) {
+        fs.mkdirSync(path.dirname(versionFile), { recursive: true });
+        fs.writeFileSync(versionFile, JSON.stringify(version));
+    }
+}
+
+/**
+ * Hit, miss and size counters for every cache, by name.
+ */
+export function cacheStats(): Record<string, CacheStats> {
+    return Object.fromEntries([embeddingCache, retrievalCache, answerCache].map(cache => [cache.name, cache.stats()]));
+}
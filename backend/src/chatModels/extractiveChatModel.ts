@@ -0,0 +1,42 @@
+import type { ChatModel, ChatRequest } from './types.js';
+
+const EXTRACTIVE_MODEL = 'extractive:top-context-v1';
+
+// Said when there is no context to answer from (the knowledge base normally catches this earlier)
+const NO_CONTEXT_ANSWER = "I'm sorry, I can't answer that from the knowledge base.";
+
+/**
+ * Turns a formatted context passage ("Context: <text> (Source: <source>)") into an answer with a citation
+ * in the same style the generative models are asked to use.
+ */
+function answerFromContext(passage: string): string {
+    const match = passage.match(/^Context: ([\s\S]*) \(Source: (.*)\)$/);
+    if (!match) return passage.replace(/^Context: /, '').trim();
+    const [, text, source] = match;
+    return `${text.trim()} (${source.startsWith('SKU ') ? source : `from ${source}`})`;
+}
+
+/**
+ * Creates a deterministic chat model that answers with the top-ranked retrieved passage, verbatim,
+ * followed by its citation. It needs no API key and no network, so the backend runs anywhere
+ * (tests, sandboxes, offline demos), and its answers are always grounded by construction.
+ * It cannot follow instructions: structured requests (intent classification) are refused, and the
+ * classifier then relies on its offline model.
+ */
+export function createExtractiveChatModel(): ChatModel {
+    const generate = async ({ context, responseSchema }: ChatRequest): Promise<string> => {
+        if (responseSchema) {
+            throw new Error('The extractive chat model cannot produce structured output.');
+        }
+        return context && context.length > 0 ? answerFromContext(context[0]) : NO_CONTEXT_ANSWER;
+    };
+
+    return {
+        name: EXTRACTIVE_MODEL,
+        generative: false,
+        generate,
+        async *stream(request: ChatRequest) {
+            yield await generate(request);
+        },
+    };
+}
@@ -0,0 +1,61 @@
+import { GoogleGenAI, type Content, type Schema, type Type } from '@google/genai';
+import type { ChatModel, ChatRequest, JsonSchema } from './types.js';
+import { resilientCaller } from '../resilience.js';
+
+/**
+ * Converts a JSON Schema to Gemini's schema format, which spells types in upper case.
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+    return {
+        type: schema.type.toUpperCase() as Type,
+        description: schema.description,
+        enum: schema.enum,
+        required: schema.required,
+        properties: schema.properties
+            ? Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)]))
+            : undefined,
+        items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    };
+}
+
+/**
+ * Creates a chat model backed by the Gemini API.
+ * @param apiKey The Gemini API key.
+ * @param model The Gemini model (e.g. "gemini-2.5-flash").
+ */
+export function createGeminiChatModel(apiKey: string, model: string): ChatModel {
+    const ai = new GoogleGenAI({ apiKey });
+    const caller = resilientCaller('gemini');
+
+    const toParameters = ({ systemPrompt, messages, responseSchema }: ChatRequest, abortSignal: AbortSignal) => ({
+        model,
+        contents: messages.map((message): Content => ({ role: message.role === 'user' ? 'user' : 'model', parts: [{ text: message.text }] })),
+        config: {
+            systemInstruction: systemPrompt,
+            abortSignal,
+            ...(responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) } : {}),
+        },
+    });
+
+    return {
+        name: `gemini:${model}`,
+        generative: true,
+
+        async generate(request: ChatRequest) {
+            const response = await caller.call('generateContent', signal => ai.models.generateContent(toParameters(request, signal)));
+            if (!response.text) {
+                throw new Error(`Gemini (${model}) returned no text content.`);
+            }
+            return response.text;
+        },
+
+        // Only opening the stream is retried: once text has been streamed to the user it cannot be taken back.
+        // A stream that stalls for the call timeout fails like any other call.
+        async *stream(request: ChatRequest) {
+            const chunks = caller.stream('generateContentStream', signal => ai.models.generateContentStream(toParameters(request, signal)));
+            for await (const chunk of chunks) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+    };
+}
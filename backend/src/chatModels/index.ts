@@ -0,0 +1,66 @@
+import { createExtractiveChatModel } from './extractiveChatModel.js';
+import { createGeminiChatModel } from './geminiChatModel.js';
+import { createOpenAiChatModel } from './openAiChatModel.js';
+import type { ChatModel } from './types.js';
+
+export type { ChatMessage, ChatModel, ChatRequest, JsonSchema } from './types.js';
+export type { ChatRecording } from './recordedChatModel.js';
+export { createExtractiveChatModel } from './extractiveChatModel.js';
+export { createGeminiChatModel } from './geminiChatModel.js';
+export { createOpenAiChatModel } from './openAiChatModel.js';
+export { createRecordedChatModel } from './recordedChatModel.js';
+
+// --- CONFIGURATION ---
+// CHAT_PROVIDER selects the provider for intent classification and answers: 'gemini', 'openai' or 'extractive'.
+// Defaults to Gemini when GEMINI_API_KEY is set, then to 'openai' when OPENAI_BASE_URL is set,
+// otherwise the offline extractive model.
+// CHAT_MODEL         The model for answers (default gemini-2.5-flash for Gemini; required for 'openai').
+// INTENT_CHAT_MODEL  The model for intent classification (default CHAT_MODEL).
+// OPENAI_BASE_URL    An OpenAI-compatible API root (e.g. http://localhost:11434/v1 for Ollama).
+// OPENAI_API_KEY     Optional bearer token for that API.
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL;
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export type ChatProvider = 'gemini' | 'openai' | 'extractive';
+
+// What a chat model is used for; each purpose can use its own model
+export type ChatModelPurpose = 'answer' | 'intent';
+
+/**
+ * Resolves the configured provider from CHAT_PROVIDER.
+ */
+export function getChatProvider(): ChatProvider {
+    const configured = process.env.CHAT_PROVIDER?.toLowerCase();
+    if (configured === 'gemini' || configured === 'openai' || configured === 'extractive') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown CHAT_PROVIDER "${configured}". Falling back to the default provider.`);
+    }
+    if (GEMINI_API_KEY) return 'gemini';
+    return OPENAI_BASE_URL ? 'openai' : 'extractive';
+}
+
+/**
+ * Creates the chat model selected by configuration.
+ * @param purpose What the model is for; 'intent' uses INTENT_CHAT_MODEL when it is set.
+ */
+export function createChatModel(purpose: ChatModelPurpose = 'answer'): ChatModel {
+    const provider = getChatProvider();
+    const model = (purpose === 'intent' && process.env.INTENT_CHAT_MODEL) || process.env.CHAT_MODEL;
+
+    if (provider === 'gemini') {
+        if (!GEMINI_API_KEY) {
+            throw new Error("CHAT_PROVIDER is 'gemini' but GEMINI_API_KEY is not set.");
+        }
+        return createGeminiChatModel(GEMINI_API_KEY, model || DEFAULT_GEMINI_MODEL);
+    }
+    if (provider === 'openai') {
+        if (!OPENAI_BASE_URL || !model) {
+            throw new Error("CHAT_PROVIDER is 'openai' but OPENAI_BASE_URL or CHAT_MODEL is not set.");
+        }
+        return createOpenAiChatModel(OPENAI_BASE_URL, model, process.env.OPENAI_API_KEY);
+    }
+    return createExtractiveChatModel();
+}
@@ -0,0 +1,85 @@
+import axios from 'axios';
+import type { Readable } from 'stream';
+import type { ChatModel, ChatRequest } from './types.js';
+import { DependencyError, resilientCaller } from '../resilience.js';
+
+// Local models can be slow on CPU, so allow much longer than the other external calls get
+const REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * Creates a chat model that calls an OpenAI-compatible Chat Completions endpoint:
+ * POST {baseUrl}/chat/completions, streaming with server-sent events.
+ * llama.cpp's server, Ollama, vLLM and LM Studio all serve this API, so a local model can stand in for Gemini.
+ * Structured output is requested with response_format json_schema.
+ * @param baseUrl Root URL of the API, including the version (e.g. "http://localhost:11434/v1").
+ * @param model The model name the server expects (e.g. "llama3.1:8b").
+ * @param apiKey Optional bearer token (local servers usually need none).
+ */
+export function createOpenAiChatModel(baseUrl: string, model: string, apiKey?: string): ChatModel {
+    const client = axios.create({
+        baseURL: baseUrl.replace(/\/+$/, ''),
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    });
+    const caller = resilientCaller('chat-api', { timeoutMs: REQUEST_TIMEOUT_MS });
+
+    const toBody = ({ systemPrompt, messages, responseSchema }: ChatRequest, stream: boolean) => ({
+        model,
+        stream,
+        messages: [
+            ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+            ...messages.map(message => ({ role: message.role, content: message.text })),
+        ],
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+    });
+
+    // A malformed event or an error sent mid-stream means the server broke down, so it is reported as a
+    // failed dependency (and answered through the degradation path) rather than as a generic error
+    const parseStreamEvent = (data: string) => {
+        let event;
+        try {
+            event = JSON.parse(data);
+        } catch (error) {
+            throw new DependencyError(caller.service, 'unavailable', `${caller.service} sent a malformed stream event: ${data.slice(0, 100)}`, error);
+        }
+        if (event?.error) {
+            throw new DependencyError(caller.service, 'unavailable', `${caller.service} reported an error mid-stream: ${JSON.stringify(event.error).slice(0, 200)}`);
+        }
+        return event;
+    };
+
+    return {
+        name: `openai:${model}`,
+        generative: true,
+
+        async generate(request: ChatRequest) {
+            const response = await caller.call('chat completion', signal => client.post('/chat/completions', toBody(request, false), { signal }));
+            const text: string | undefined = response.data?.choices?.[0]?.message?.content;
+            if (!text) {
+                throw new Error(`${baseUrl} (${model}) returned no text content.`);
+            }
+            return text;
+        },
+
+        async *stream(request: ChatRequest) {
+            // Only opening the stream is retried: once text has been streamed to the user it cannot be taken back.
+            // A stream that stalls for the request timeout fails like any other call.
+            const chunks = caller.stream('chat completion stream', async signal =>
+                (await client.post<Readable>('/chat/completions', toBody(request, true), { responseType: 'stream', signal })).data);
+
+            // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+            let buffered = '';
+            for await (const chunk of chunks) {
+                buffered += chunk.toString();
+                const lines = buffered.split('\n');
+                buffered = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.trim().replace(/^data:\s*/, '');
+                    if (!line.trim().startsWith('data:') || !data) continue;
+                    if (data === '[DONE]') return;
+                    const delta = parseStreamEvent(data).choices?.[0]?.delta?.content;
+                    if (delta) yield delta as string;
+                }
+            }
+        },
+    };
+}
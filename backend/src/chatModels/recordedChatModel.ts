@@ -0,0 +1,55 @@
+import type { ChatModel, ChatRequest } from './types.js';
+
+const RECORDED_MODEL = 'recorded:fixtures-v1';
+
+// What a chat model said for one user query, replayed by the recorded chat model
+export interface ChatRecording {
+    query: string; // The user's message, exactly as sent
+    intent?: string; // The classifier's raw output (JSON, possibly in a code fence, as models send it)
+    answer?: string; // The knowledge-base answer
+}
+
+/**
+ * Creates a chat model that replays recorded outputs instead of calling a provider, so the evaluation
+ * can run the LLM classifier and the answer prompt offline: the prompts are still built, the outputs still
+ * go through the same parsing, slot filtering, streaming and output guard as a live model's.
+ * A request is matched to its recording by the user's query, which must appear where the prompts put it:
+ * after "User Query:" in the classifier prompt, or as the last message of an answer request, whose system
+ * prompt must also contain every retrieved passage. Anything else is an error, so a prompt change that drops
+ * the query or the context fails the evaluation instead of going unnoticed.
+ * @param recordings The recorded outputs, one entry per query.
+ */
+export function createRecordedChatModel(recordings: ChatRecording[]): ChatModel {
+    const generate = async ({ systemPrompt, messages, context, responseSchema }: ChatRequest): Promise<string> => {
+        const lastMessage = messages[messages.length - 1]?.text ?? '';
+
+        if (responseSchema) {
+            const recording = recordings.find(candidate => candidate.intent !== undefined && lastMessage.includes(`User Query: ${JSON.stringify(candidate.query)}`));
+            if (!recording) {
+                throw new Error(`No recorded classifier output matches this prompt: ${lastMessage.match(/User Query: .*/)?.[0] ?? 'the prompt has no "User Query:" line'}`);
+            }
+            return recording.intent!;
+        }
+
+        const recording = recordings.find(candidate => candidate.answer !== undefined && candidate.query === lastMessage);
+        if (!recording) {
+            throw new Error(`No recorded answer for "${lastMessage}".`);
+        }
+        const missingContext = (context ?? []).find(passage => !systemPrompt?.includes(passage));
+        if (missingContext) {
+            throw new Error(`The answer prompt for "${lastMessage}" does not include the retrieved passage: ${missingContext}`);
+        }
+        return recording.answer!;
+    };
+
+    return {
+        name: RECORDED_MODEL,
+        generative: true,
+        generate,
+        async *stream(request: ChatRequest) {
+            // Word by word, as a live model streams, so sentence-level handling of the stream is exercised too
+            const answer = await generate(request);
+            yield* answer.match(/\S+\s*/g) ?? [];
+        },
+    };
+}
@@ -0,0 +1,44 @@
+// --- SHARED CHAT MODEL TYPES ---
+// Intent classification and answer generation both talk to a ChatModel, so the provider
+// (Gemini, an OpenAI-compatible server such as llama.cpp or Ollama, or the offline extractive
+// model) is chosen by configuration and never hard-coded in the pipeline.
+
+// One message of the conversation sent to the model
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    text: string;
+}
+
+// A provider-neutral JSON Schema subset, enough to describe structured outputs
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+}
+
+export interface ChatRequest {
+    systemPrompt?: string; // Instructions (for answers, including the formatted context)
+    messages: ChatMessage[]; // Oldest first; the last one is the message to respond to
+    context?: string[]; // The retrieved context passages, in ranked order, when answering from the knowledge base
+    responseSchema?: JsonSchema; // Ask for a JSON object matching this schema instead of prose
+}
+
+export interface ChatModel {
+    /** Identifies the provider and model in logs (e.g. "gemini:gemini-2.5-flash"). */
+    readonly name: string;
+
+    /**
+     * Whether the model follows instructions. The extractive model does not: it can only repeat
+     * the retrieved context, so it cannot classify intents or produce structured output.
+     */
+    readonly generative: boolean;
+
+    /** Generates a complete response. */
+    generate(request: ChatRequest): Promise<string>;
+
+    /** Generates a response as a stream of text chunks. */
+    stream(request: ChatRequest): AsyncIterable<string>;
+}
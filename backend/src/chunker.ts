@@ -0,0 +1,114 @@
+import type { LoadedDocument } from './loaders/index.js';
+
+// --- CONFIGURATION ---
+// CHUNK_SIZE     Maximum characters per chunk.
+// CHUNK_OVERLAP  Characters repeated from the end of one chunk at the start of the next in the same section.
+export interface ChunkingConfig {
+    maxChars: number;
+    overlapChars: number;
+}
+
+// A retrievable piece of a document. Chunks never span sections, so each cites exactly one heading.
+export interface DocumentChunk {
+    sourceFile: string;
+    documentTitle: string;
+    sectionTitle: string; // Heading path; the document title for text before the first heading
+    anchor?: string;
+    position: number; // 0-based index of the chunk within its document
+    sectionPosition: number; // 0-based index of the chunk within its section
+    text: string;
+}
+
+/**
+ * Reads the chunking settings from the environment. The overlap is capped at half the chunk size
+ * so every chunk still makes progress through the text.
+ */
+export function getChunkingConfig(): ChunkingConfig {
+    const maxChars = Math.max(200, Number(process.env.CHUNK_SIZE) || 1000);
+    const overlapChars = Math.max(0, Number(process.env.CHUNK_OVERLAP ?? 150) || 0);
+    return { maxChars, overlapChars: Math.min(overlapChars, Math.floor(maxChars / 2)) };
+}
+
+/**
+ * Splits text that is too long for one chunk: at sentence ends where possible, otherwise at spaces,
+ * and only as a last resort in the middle of a word.
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+    const sentences = text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*/g) ?? [text];
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+        if (current && current.length + sentence.length > maxChars) {
+            pieces.push(current.trim());
+            current = '';
+        }
+        let rest = sentence;
+        while (rest.length > maxChars) {
+            const cut = rest.lastIndexOf(' ', maxChars);
+            const end = cut > maxChars / 2 ? cut : maxChars;
+            pieces.push(rest.slice(0, end).trim());
+            rest = rest.slice(end);
+        }
+        current += rest;
+    }
+    if (current.trim()) pieces.push(current.trim());
+    return pieces;
+}
+
+/**
+ * The tail of a chunk to repeat at the start of the next one, starting at a sentence or word boundary.
+ */
+function overlapTail(text: string, overlapChars: number): string {
+    if (overlapChars === 0) return '';
+    if (text.length <= overlapChars) return text;
+    const tail = text.slice(-overlapChars);
+    const sentenceStart = tail.search(/[.!?]\s+\S/);
+    if (sentenceStart >= 0) return tail.slice(sentenceStart + 1).trim();
+    const wordStart = tail.indexOf(' ');
+    return wordStart >= 0 ? tail.slice(wordStart + 1) : tail;
+}
+
+/**
+ * Splits a loaded document into chunks, section by section:
+ * 1. Paragraphs of a section are packed into chunks of at most maxChars.
+ * 2. A paragraph longer than that is split at sentence, then word boundaries.
+ * 3. Each chunk after the first in a section starts with the tail of the previous one (overlapChars),
+ *    so a sentence cut at a boundary is still retrievable with its context.
+ * Section titles are kept with every chunk so retrieval can cite the exact section.
+ * @param document The parsed document.
+ * @param config Chunk size and overlap.
+ */
+export function chunkDocument(document: LoadedDocument, config: ChunkingConfig = getChunkingConfig()): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const section of document.sections) {
+        // Pieces of one paragraph are rejoined with a space, separate paragraphs with a blank line
+        const units = section.text
+            .split(/\n{2,}/)
+            .flatMap(paragraph => (paragraph.length > config.maxChars ? splitLongText(paragraph, config.maxChars) : [paragraph])
+                .map((text, i) => ({ text, separator: i === 0 ? '\n\n' : ' ' })));
+
+        const texts: string[] = [];
+        let current = '';
+        for (const { text, separator } of units) {
+            if (current && current.length + separator.length + text.length > config.maxChars) {
+                texts.push(current);
+                const overlap = overlapTail(current, config.overlapChars);
+                current = overlap && overlap.length + separator.length + text.length <= config.maxChars ? overlap : '';
+            }
+            current = current ? `${current}${separator}${text}` : text;
+        }
+        if (current) texts.push(current);
+
+        texts.forEach((text, sectionPosition) => chunks.push({
+            sourceFile: document.sourceFile,
+            documentTitle: document.title,
+            sectionTitle: section.title || document.title,
+            anchor: section.anchor,
+            position: chunks.length,
+            sectionPosition,
+            text,
+        }));
+    }
+    return chunks;
+}
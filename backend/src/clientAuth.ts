@@ -0,0 +1,107 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+// --- CONFIGURATION ---
+// CLIENT_API_KEYS      Comma-separated API keys accepted on /api, each optionally named: "web:k3y,kiosk:0th3r".
+// CLIENT_TOKEN_SECRET  Secret for signed client tokens (see createClientToken); tokens are rejected when unset.
+// Client authentication is required as soon as either is set. With neither, /api is open (for local development).
+const CLIENT_API_KEYS = parseApiKeys(process.env.CLIENT_API_KEYS || '');
+const CLIENT_TOKEN_SECRET = process.env.CLIENT_TOKEN_SECRET;
+
+export const CLIENT_AUTH_REQUIRED = CLIENT_API_KEYS.length > 0 || !!CLIENT_TOKEN_SECRET;
+
+// Signed tokens look like "v1.<client id>.<expiry, unix seconds>.<signature>"
+const TOKEN_VERSION = 'v1';
+
+// The caller of an /api request, once authenticated
+export interface ApiClient {
+    id: string; // Key name or token subject; used in logs and as the rate-limit key
+    method: 'api_key' | 'token' | 'anonymous';
+}
+
+interface ApiKey {
+    name: string;
+    key: string;
+}
+
+/**
+ * Parses CLIENT_API_KEYS. An unnamed key is named after its position ("key-1", "key-2", ...).
+ */
+function parseApiKeys(value: string): ApiKey[] {
+    return value.split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map((entry, index) => {
+            const separator = entry.indexOf(':');
+            return separator > 0
+                ? { name: entry.slice(0, separator), key: entry.slice(separator + 1) }
+                : { name: `key-${index + 1}`, key: entry };
+        });
+}
+
+/**
+ * Compares two secrets in constant time (hashing first so lengths need not match).
+ */
+export function secretsMatch(given: string, expected: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(given), digest(expected));
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+/**
+ * Issues a signed token for a client, e.g. from a site's own backend to hand to its browser.
+ * Anyone holding CLIENT_TOKEN_SECRET can produce the same token, so keep it server-side.
+ * @param clientId Who the token is for. Must not contain a dot.
+ * @param ttlSeconds How long the token is valid.
+ */
+export function createClientToken(clientId: string, ttlSeconds: number, secret = CLIENT_TOKEN_SECRET): string {
+    if (!secret) {
+        throw new Error("CLIENT_TOKEN_SECRET must be set to issue client tokens.");
+    }
+    if (!clientId || clientId.includes('.')) {
+        throw new Error(`Invalid client id "${clientId}": it must be non-empty and contain no dots.`);
+    }
+    const payload = `${TOKEN_VERSION}.${clientId}.${Math.floor(Date.now() / 1000) + ttlSeconds}`;
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Checks a signed token's signature and expiry.
+ * @returns The client id, or null if the token is forged, malformed or expired.
+ */
+function verifyClientToken(token: string): string | null {
+    if (!CLIENT_TOKEN_SECRET) return null;
+    const parts = token.split('.');
+    if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) return null;
+    const [, clientId, expiresAt, signature] = parts;
+    if (!secretsMatch(signature, sign(parts.slice(0, 3).join('.'), CLIENT_TOKEN_SECRET))) return null;
+    return Number(expiresAt) * 1000 > Date.now() ? clientId : null;
+}
+
+/**
+ * The credential sent with a request: the X-API-Key header or a bearer token. Credentials are never
+ * read from the URL, which ends up in proxy and access logs.
+ */
+function credentialOf(req: Request): string | undefined {
+    return req.get('X-API-Key') ?? req.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+}
+
+/**
+ * Identifies the client of an /api request.
+ * @returns The client, or null if authentication is required and the request has no valid API key or token.
+ */
+export function authenticateClient(req: Request): ApiClient | null {
+    if (!CLIENT_AUTH_REQUIRED) {
+        return { id: 'anonymous', method: 'anonymous' };
+    }
+    const credential = credentialOf(req);
+    if (!credential) return null;
+
+    const apiKey = CLIENT_API_KEYS.find(candidate => secretsMatch(credential, candidate.key));
+    if (apiKey) {
+        return { id: apiKey.name, method: 'api_key' };
+    }
+    const tokenClient = verifyClientToken(credential);
+    return tokenClient ? { id: tokenClient, method: 'token' } : null;
+}
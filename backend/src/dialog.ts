@@ -0,0 +1,286 @@
+// --- CONFIGURATION ---
+// ORDER_ID_MAX_ATTEMPTS  How many invalid order numbers the user may give before the bot stops asking.
+const ORDER_ID_MAX_ATTEMPTS = Number(process.env.ORDER_ID_MAX_ATTEMPTS || 3);
+
+// Slot values collected so far (matches SlotValue in intents/types.ts)
+export type DialogSlots = Record<string, string | number | boolean | undefined>;
+
+// Every dialog remembers the intent that started it, which continues it on the next turn,
+// and the slots that intent had collected, which are handed back once the dialog completes
+interface DialogBase {
+    intent: string;
+    slots: DialogSlots;
+}
+
+// Waiting for the user to say an order number
+export interface OrderIdDialog extends DialogBase {
+    name: 'awaiting_order_id';
+    attempts: number;
+}
+
+// Waiting for the email or postcode that proves the user owns the order
+export interface VerificationDialog extends DialogBase {
+    name: 'awaiting_verification';
+    orderId: string;
+}
+
+// Waiting for a new shipping address
+export interface AddressDialog extends DialogBase {
+    name: 'awaiting_address';
+    attempts: number;
+}
+
+// Waiting for an explicit yes or no before an irreversible action
+export interface ConfirmationDialog extends DialogBase {
+    name: 'awaiting_confirmation';
+    attempts: number;
+    declinedAnswer: string; // What to say if the user says no
+}
+
+// What the bot is waiting for from the user, stored on the session between turns
+export type DialogState = OrderIdDialog | VerificationDialog | AddressDialog | ConfirmationDialog;
+
+// The outcome of feeding a user utterance into an active dialog
+export type DialogStep =
+    | { kind: 'slot_filled'; slots: DialogSlots }  // The dialog got what it asked for; these slots are merged into the intent's
+    | { kind: 'reprompt'; answer: string }         // Invalid input; the dialog continues
+    | { kind: 'abandoned'; answer: string }        // Cancelled by the user or too many attempts
+    | { kind: 'topic_changed' };                   // The user asked something else; route normally
+
+// How many unclear answers to an address or yes/no question are tolerated before giving up
+const MAX_UNCLEAR_ANSWERS = 2;
+
+// Order IDs are 5-8 letters and digits with at least one digit (e.g. 'ABC12345')
+const ORDER_ID_PATTERN = /^(?=.*\d)[A-Z0-9]{5,8}$/;
+
+export const DIALOG_CANCELLED_ANSWER = "No problem. Is there anything else I can help you with?";
+
+export const ORDER_ID_PROMPT = "I can help with that. What's your order number? It's 5 to 8 letters and digits, like ABC12345.";
+
+// Homophones like "to" and "for" are deliberately left out: they are more often filler than digits
+const SPOKEN_DIGITS: Record<string, string> = {
+    zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+    eight: '8', nine: '9',
+};
+
+const NATO_LETTERS: Record<string, string> = {
+    alpha: 'A', alfa: 'A', bravo: 'B', charlie: 'C', delta: 'D', echo: 'E', foxtrot: 'F', golf: 'G',
+    hotel: 'H', india: 'I', juliet: 'J', juliett: 'J', kilo: 'K', lima: 'L', mike: 'M', november: 'N',
+    oscar: 'O', papa: 'P', quebec: 'Q', romeo: 'R', sierra: 'S', tango: 'T', uniform: 'U', victor: 'V',
+    whiskey: 'W', xray: 'X', yankee: 'Y', zulu: 'Z',
+};
+
+const REPEATERS: Record<string, number> = { double: 2, triple: 3 };
+
+// Words that commonly surround a spoken order number or postcode and carry no characters of it
+const FILLER_WORDS = new Set([
+    'my', 'order', 'number', 'id', 'is', 'it', 'its', "it's", 'the', 'uh', 'um', 'er', 'sure', 'yes',
+    'yeah', 'ok', 'okay', 'so', 'please', 'thanks', 'thank', 'you', 'dash', 'hyphen', 'and', 'then',
+    'postcode', 'postal', 'zip', 'code', 'space',
+]);
+
+const YES_PATTERN = /\b(yes|yeah|yep|yup|sure|correct|confirm|confirmed|go ahead|do it|please do|that's right|affirmative)\b/i;
+// Negations count as a no, so "I'm not sure" or "that isn't right" never read as consent
+const NO_PATTERN = /\b(no|nope|nah|not|\w+n't|never ?mind|keep it|wait|hold on|cancel that)\b/i;
+const CANCEL_PATTERN = /^(never ?mind|cancel|stop|forget it|no thanks|nothing)\b/i;
+const QUESTION_PATTERN = /\?\s*$|^(what|how|where|when|why|who|can|could|do(?! it\b)|does|is|are|will|would|should)\b/i;
+// Words that make an utterance a request of its own ("cancel order ABC12345"), even if it contains an order ID
+const REQUEST_PATTERN = /\b(cancel\w*|return\w*|refund\w*|exchange|change|update|track\w*|status|address|talk|speak|human|agent|person)\b/i;
+
+/**
+ * Reads characters spelled out one by one, as speech-to-text transcribes them
+ * ("A B C one two three", "alpha bravo double five"). Filler words are skipped.
+ * @param text The user's utterance.
+ * @returns The upper-case characters, or null if any word is neither a character nor filler.
+ */
+export function readSpelledCharacters(text: string): string | null {
+    const words = text.replace(/[^A-Za-z0-9' ]+/g, ' ').split(/\s+/).filter(Boolean);
+    let result = '';
+    let repeat = 1;
+
+    for (const original of words) {
+        const word = original.toLowerCase();
+        let characters: string;
+        if (REPEATERS[word]) {
+            repeat = REPEATERS[word];
+            continue;
+        } else if (SPOKEN_DIGITS[word]) {
+            characters = SPOKEN_DIGITS[word];
+        } else if (NATO_LETTERS[word]) {
+            characters = NATO_LETTERS[word];
+        } else if (FILLER_WORDS.has(word)) {
+            continue;
+        } else if (/^[a-z0-9]$/.test(word) || /^\d+$/.test(word) || /^[A-Z]{2,4}$/.test(original)) {
+            // Single characters, digit runs, and letter groups transcribed in capitals (e.g. "ABC")
+            characters = word.toUpperCase();
+        } else {
+            return null;
+        }
+        result += characters.repeat(repeat);
+        repeat = 1;
+    }
+
+    return result || null;
+}
+
+/**
+ * Normalizes an order number as it might arrive from speech-to-text.
+ * Accepts a written ID ("abc-12345"), spelled-out characters ("A B C one two three four five"),
+ * NATO letters ("alpha bravo charlie ...") and repeats ("double five").
+ * @param text The user's utterance or an extracted detail.
+ * @param isExcluded Optionally rejects written tokens that only look like order IDs (e.g. product models).
+ * @returns The canonical upper-case order ID, or null if the text does not contain a valid one.
+ */
+export function normalizeSpokenOrderId(text: string, isExcluded?: (token: string) => boolean): string | null {
+    // 1. A written ID anywhere in the text
+    for (const token of text.toUpperCase().split(/[^A-Z0-9-]+/)) {
+        const candidate = token.replace(/-/g, '');
+        if (ORDER_ID_PATTERN.test(candidate) && !isExcluded?.(candidate)) return candidate;
+    }
+
+    // 2. A spelled-out ID: every word must contribute characters or be filler
+    const spelled = readSpelledCharacters(text);
+    return spelled && ORDER_ID_PATTERN.test(spelled) ? spelled : null;
+}
+
+/**
+ * Whether the user is backing out of the current dialog ("never mind", "cancel").
+ */
+export function isCancellation(utterance: string): boolean {
+    return CANCEL_PATTERN.test(utterance.trim());
+}
+
+/**
+ * Whether the utterance is a new question rather than an answer to the bot's prompt.
+ */
+export function isNewQuestion(utterance: string): boolean {
+    return QUESTION_PATTERN.test(utterance.trim());
+}
+
+/**
+ * Starts the order-ID dialog.
+ * @param intent The intent to continue once the order ID is known.
+ * @param slots The slots the intent has collected so far.
+ */
+export function startOrderIdDialog(intent: string, slots: DialogSlots = {}): OrderIdDialog {
+    return { name: 'awaiting_order_id', intent, slots, attempts: 0 };
+}
+
+/**
+ * Starts the shipping-address dialog.
+ * @param intent The intent to continue once the address is known.
+ * @param slots The slots the intent has collected so far.
+ */
+export function startAddressDialog(intent: string, slots: DialogSlots): AddressDialog {
+    return { name: 'awaiting_address', intent, slots, attempts: 0 };
+}
+
+/**
+ * Starts a yes/no confirmation. A "yes" completes it with the slot `confirmed: true`.
+ * @param intent The intent to continue once confirmed.
+ * @param slots The slots the intent has collected so far.
+ * @param declinedAnswer What to say if the user says no.
+ */
+export function startConfirmationDialog(intent: string, slots: DialogSlots, declinedAnswer: string): ConfirmationDialog {
+    return { name: 'awaiting_confirmation', intent, slots, attempts: 0, declinedAnswer };
+}
+
+/**
+ * Whether the utterance asks for something itself (e.g. "cancel order ABC12345"), rather than only answering a prompt.
+ */
+export function isNewRequest(utterance: string): boolean {
+    return REQUEST_PATTERN.test(utterance);
+}
+
+/**
+ * Advances the order-ID dialog with the user's latest utterance.
+ * A new question or request is routed normally even when it contains an order ID ("Can I cancel
+ * order ABC12345?"), since the classifier extracts the ID along with what the user wants done;
+ * only an utterance that does nothing but give the ID answers the prompt.
+ * The caller stores or clears the dialog state based on the returned step.
+ * @param state The dialog the session is in; its attempt count is updated in place.
+ * @param utterance What the user said.
+ */
+export function continueDialog(state: OrderIdDialog, utterance: string): DialogStep {
+    // A new question means the user has moved on rather than mis-speaking the number
+    if (isNewQuestion(utterance)) {
+        return { kind: 'topic_changed' };
+    }
+
+    const orderId = normalizeSpokenOrderId(utterance);
+    if (orderId) {
+        return isNewRequest(utterance) ? { kind: 'topic_changed' } : { kind: 'slot_filled', slots: { orderId } };
+    }
+
+    if (isCancellation(utterance)) {
+        return { kind: 'abandoned', answer: DIALOG_CANCELLED_ANSWER };
+    }
+
+    state.attempts += 1;
+    if (state.attempts >= ORDER_ID_MAX_ATTEMPTS) {
+        return {
+            kind: 'abandoned',
+            answer: "I'm sorry, I still couldn't catch a valid order number. You can find it in your order confirmation email. Feel free to ask me again once you have it.",
+        };
+    }
+
+    return {
+        kind: 'reprompt',
+        answer: "Sorry, that didn't sound like an order number. Order numbers are 5 to 8 letters and digits, like ABC12345. Could you say it again, one character at a time?",
+    };
+}
+
+/**
+ * Advances the shipping-address dialog. Anything that looks like a street address
+ * (several words including a number) is accepted as the new address.
+ * @param state The dialog the session is in; its attempt count is updated in place.
+ * @param utterance What the user said.
+ */
+export function continueAddressDialog(state: AddressDialog, utterance: string): DialogStep {
+    const address = utterance.trim().replace(/^(it's|it is|the new address is|new address is|please use|use)\s+/i, '').replace(/[.\s]+$/, '');
+
+    if (isCancellation(utterance)) {
+        return { kind: 'abandoned', answer: DIALOG_CANCELLED_ANSWER };
+    }
+    if (isNewQuestion(utterance)) {
+        return { kind: 'topic_changed' };
+    }
+    if (/\d/.test(address) && address.split(/\s+/).length >= 3) {
+        return { kind: 'slot_filled', slots: { newAddress: address } };
+    }
+
+    state.attempts += 1;
+    if (state.attempts >= MAX_UNCLEAR_ANSWERS) {
+        return { kind: 'abandoned', answer: "I'm sorry, I couldn't get a complete address. Feel free to ask again when you have it, or ask to talk to a person." };
+    }
+    return { kind: 'reprompt', answer: "Sorry, I need the full address, including the street number, city and postcode. What's the new shipping address?" };
+}
+
+/**
+ * Advances a yes/no confirmation. Only an explicit yes confirms; anything else is never treated as consent.
+ * A question never confirms: one about the confirmation itself ("is that correct?") is asked again,
+ * and any other question changes the topic.
+ * @param state The dialog the session is in; its attempt count is updated in place.
+ * @param utterance What the user said.
+ */
+export function continueConfirmationDialog(state: ConfirmationDialog, utterance: string): DialogStep {
+    const yes = YES_PATTERN.test(utterance);
+    const no = NO_PATTERN.test(utterance);
+    const asked = isNewQuestion(utterance);
+
+    if (yes && !no && !asked) {
+        return { kind: 'slot_filled', slots: { confirmed: true } };
+    }
+    if (no && !yes) {
+        return { kind: 'abandoned', answer: state.declinedAnswer };
+    }
+    if (!yes && asked) {
+        return { kind: 'topic_changed' };
+    }
+
+    state.attempts += 1;
+    if (state.attempts >= MAX_UNCLEAR_ANSWERS) {
+        return { kind: 'abandoned', answer: `I didn't catch a clear yes, so ${state.declinedAnswer.charAt(0).toLowerCase()}${state.declinedAnswer.slice(1)}` };
+    }
+    return { kind: 'reprompt', answer: "Sorry, I didn't catch that. Please say yes to confirm, or no to leave things as they are." };
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { KnowledgeBaseDocument } from './knowledgeBaseData.js';
+import { loaderFor, slugify, type LoadedDocument } from './loaders/index.js';
+import { chunkDocument, getChunkingConfig, type DocumentChunk } from './chunker.js';
+
+// --- CONFIGURATION ---
+// DOCS_DATA_PATH  Directory of policy and help documents (Markdown, HTML, plain text, CSV), searched recursively.
+export const DOCS_DATA_PATH = process.env.DOCS_DATA_PATH || path.join(process.cwd(), 'data', 'docs');
+
+/**
+ * Lists the supported files under the documents directory, sorted so ids and positions are stable.
+ * @returns Paths relative to DOCS_DATA_PATH. Empty if the directory does not exist.
+ */
+function listDocumentFiles(directory = DOCS_DATA_PATH): string[] {
+    if (!fs.existsSync(directory)) return [];
+    return (fs.readdirSync(directory, { recursive: true }) as string[])
+        .map(file => file.split(path.sep).join('/'))
+        .filter(file => fs.statSync(path.join(directory, file)).isFile())
+        .filter(file => {
+            if (loaderFor(file)) return true;
+            console.warn(`[Documents] Skipping ${file}: unsupported format.`);
+            return false;
+        })
+        .sort();
+}
+
+/**
+ * Loads and parses every document under DOCS_DATA_PATH with the loader for its format.
+ */
+export function loadDocuments(): LoadedDocument[] {
+    return listDocumentFiles().map(file => loaderFor(file)!.load(fs.readFileSync(path.join(DOCS_DATA_PATH, file), 'utf-8'), file));
+}
+
+/**
+ * Hashes the document files and the chunking settings, so a stale index can be detected.
+ */
+export function fingerprintDocumentData(): string {
+    const hash = createHash('sha256').update(JSON.stringify(getChunkingConfig()));
+    for (const file of listDocumentFiles()) {
+        hash.update(file).update(fs.readFileSync(path.join(DOCS_DATA_PATH, file)));
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Builds the knowledge-base document for a chunk. The record's doc_id is the document title,
+ * and the section heading and position are kept in metadata so answers can cite the exact section.
+ * @param chunk The chunk.
+ * @param chunkCount How many chunks its document was split into.
+ * @param url The document's canonical page, if it has one.
+ */
+export function chunkRecordDocument(chunk: DocumentChunk, chunkCount: number, url?: string): KnowledgeBaseDocument {
+    const id = `doc-${slugify(chunk.sourceFile.replace(/\.[^.]+$/, '').replace(/\//g, ' '))}-${chunk.position}`;
+    // Headings usually repeat the document title; the section alone reads better in citations
+    const section = chunk.sectionTitle.startsWith(`${chunk.documentTitle} > `)
+        ? chunk.sectionTitle.slice(chunk.documentTitle.length + 3)
+        : chunk.sectionTitle;
+    return {
+        id,
+        text: `${chunk.documentTitle}\n${section === chunk.documentTitle ? '' : `${section}\n`}${chunk.text}`,
+        metadata: {
+            id,
+            doc_id: chunk.documentTitle,
+            doc_type: 'document',
+            question: section,
+            answer: chunk.text,
+            url: url ? `${url}${chunk.anchor ? `#${chunk.anchor}` : ''}` : '',
+            source_file: chunk.sourceFile,
+            section_title: section,
+            chunk_index: chunk.position,
+            chunk_count: chunkCount,
+        },
+    };
+}
+
+/**
+ * Loads, chunks and converts every document under DOCS_DATA_PATH into knowledge-base documents.
+ */
+export function loadDocumentChunkRecords(): KnowledgeBaseDocument[] {
+    const config = getChunkingConfig();
+    return loadDocuments().flatMap(document => {
+        const chunks = chunkDocument(document, config);
+        return chunks.map(chunk => chunkRecordDocument(chunk, chunks.length, document.url));
+    });
+}
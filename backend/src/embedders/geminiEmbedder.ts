@@ -0,0 +1,46 @@
+import { GoogleGenAI } from '@google/genai';
+import type { Embedder } from './types.js';
+import { resilientCaller } from '../resilience.js';
+
+const EMBEDDING_MODEL = 'embedding-001';
+const EMBEDDING_DIMENSION = 768; // Dimension for embedding-001
+
+/**
+ * Creates an embedder backed by Google's embedding-001 model.
+ * @param apiKey The Gemini API key.
+ */
+export function createGeminiEmbedder(apiKey: string): Embedder {
+    const ai = new GoogleGenAI({ apiKey });
+    // Embedding quota is separate from generation quota, so it gets its own circuit
+    const caller = resilientCaller('gemini-embeddings');
+
+    return {
+        model: `gemini:${EMBEDDING_MODEL}`,
+        dimension: EMBEDDING_DIMENSION,
+        // embedding-001 rarely scores unrelated English text below ~0.55
+        minRelevanceScore: 0.65,
+
+        async embed(text: string): Promise<number[]> {
+            try {
+                const result = await caller.call('embedContent', abortSignal => ai.models.embedContent({
+                    model: EMBEDDING_MODEL,
+                    contents: [text],
+                    config: { abortSignal },
+                }));
+
+                if (!result.embeddings?.[0]?.values) {
+                    throw new Error("Google Embedding API returned an empty result or missing embedding values.");
+                }
+
+                return result.embeddings[0].values;
+
+            } catch (error: any) {
+                // Quota exhaustion (status 429) that outlasted the retries; the circuit breaker probes for recovery
+                if (error.kind === 'rate_limited') {
+                    console.warn("\n🚨 WARNING: Google Embedding Quota Exceeded. Set EMBEDDER=local and re-run ingestion to work offline.");
+                }
+                throw error;
+            }
+        },
+    };
+}
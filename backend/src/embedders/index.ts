@@ -0,0 +1,73 @@
+import { createGeminiEmbedder } from './geminiEmbedder.js';
+import { createLocalEmbedder } from './localEmbedder.js';
+import type { Embedder } from './types.js';
+import type { IndexMetadata } from '../vectorStores/index.js';
+import { normalizeQuery, type Cache } from '../cache.js';
+
+export type { Embedder } from './types.js';
+export { createGeminiEmbedder } from './geminiEmbedder.js';
+export { createLocalEmbedder } from './localEmbedder.js';
+
+// --- CONFIGURATION ---
+// EMBEDDER selects the embedding provider: 'gemini' or 'local'.
+// Defaults to Gemini when GEMINI_API_KEY is set, otherwise the deterministic local embedder.
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+
+export type EmbedderBackend = 'gemini' | 'local';
+
+/**
+ * Resolves the configured provider from EMBEDDER.
+ */
+export function getEmbedderBackend(): EmbedderBackend {
+    const configured = process.env.EMBEDDER?.toLowerCase();
+    if (configured === 'gemini' || configured === 'local') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown EMBEDDER "${configured}". Falling back to the default embedder.`);
+    }
+    return GEMINI_API_KEY ? 'gemini' : 'local';
+}
+
+/**
+ * Creates the embedder selected by configuration.
+ */
+export function createEmbedder(): Embedder {
+    if (getEmbedderBackend() === 'gemini') {
+        if (!GEMINI_API_KEY) {
+            throw new Error("EMBEDDER is 'gemini' but GEMINI_API_KEY is not set.");
+        }
+        return createGeminiEmbedder(GEMINI_API_KEY);
+    }
+    return createLocalEmbedder();
+}
+
+/**
+ * The index metadata that vectors produced by this embedder must be stored under.
+ */
+export function indexMetadataFor(embedder: Embedder): IndexMetadata {
+    return { embeddingModel: embedder.model, dimension: embedder.dimension };
+}
+
+/**
+ * Wraps an embedder so repeated texts are embedded once. Keys are normalized, so trivially different
+ * phrasings of the same query ("Return policy?" / "return policy") share a vector.
+ * Meant for queries; ingestion embeds every record once anyway.
+ * @param embedder The embedder to wrap.
+ * @param cache Where to keep the vectors. Keys include the embedder's model, so one cache can serve several.
+ */
+export function createCachedEmbedder(embedder: Embedder, cache: Cache<number[]>): Embedder {
+    return {
+        model: embedder.model,
+        dimension: embedder.dimension,
+        minRelevanceScore: embedder.minRelevanceScore,
+        async embed(text: string) {
+            const key = `${embedder.model}|${normalizeQuery(text)}`;
+            const cached = cache.get(key);
+            if (cached) return cached;
+            const vector = await embedder.embed(text);
+            cache.set(key, vector);
+            return vector;
+        },
+    };
+}
@@ -0,0 +1,110 @@
+import type { Embedder } from './types.js';
+
+// --- CONFIGURATION ---
+const LOCAL_MODEL = 'local:hashed-ngram-v1'; // Bump the version whenever the feature extraction changes
+const LOCAL_DIMENSION = 768; // Same dimension as embedding-001, so either embedder fits the same index
+
+// Feature weights: whole words carry most of the meaning, bigrams add phrase context,
+// and character trigrams let misspellings and word forms ("returns", "returning") overlap.
+const UNIGRAM_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+// Common words that would otherwise dominate every vector
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+    'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to', 'we', 'what',
+    'when', 'where', 'which', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * 32-bit FNV-1a hash. Deterministic across runs and platforms.
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Reduces a word to a rough stem so simple inflections share features.
+ */
+function stem(word: string): string {
+    if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+/**
+ * Lower-cases, splits on non-alphanumerics, drops stopwords and stems.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token && !STOPWORDS.has(token))
+        .map(stem);
+}
+
+/**
+ * Extracts n-gram features from text and returns each feature's weighted, sublinear term frequency.
+ */
+function extractFeatures(text: string): Map<string, number> {
+    const counts = new Map<string, { weight: number; count: number }>();
+    const add = (feature: string, weight: number) => {
+        const entry = counts.get(feature);
+        if (entry) entry.count++;
+        else counts.set(feature, { weight, count: 1 });
+    };
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+        add(`w:${token}`, UNIGRAM_WEIGHT);
+        if (i > 0) add(`b:${tokens[i - 1]}_${token}`, BIGRAM_WEIGHT);
+
+        const padded = `^${token}$`;
+        for (let j = 0; j + 3 <= padded.length; j++) {
+            add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+        }
+    });
+
+    // Sublinear term frequency, so repeated words don't swamp the vector
+    const features = new Map<string, number>();
+    for (const [feature, { weight, count }] of counts) {
+        features.set(feature, weight * (1 + Math.log(count)));
+    }
+    return features;
+}
+
+/**
+ * Creates a deterministic, network-free embedder.
+ * Text is turned into weighted word, bigram and character-trigram features, which are projected
+ * into a fixed number of dimensions with signed feature hashing and L2-normalized. Texts that
+ * share vocabulary end up close in cosine similarity, which is enough for FAQ retrieval offline.
+ */
+export function createLocalEmbedder(): Embedder {
+    return {
+        model: LOCAL_MODEL,
+        dimension: LOCAL_DIMENSION,
+        // Calibrated on the eval set (npm run eval): its questions' best matches score 0.27 and up,
+        // while unrelated small talk ("yes", "what day is it today") reaches about 0.21 on shared trigrams
+        minRelevanceScore: 0.23,
+
+        async embed(text: string): Promise<number[]> {
+            const vector = new Array<number>(LOCAL_DIMENSION).fill(0);
+
+            for (const [feature, value] of extractFeatures(text)) {
+                const hash = fnv1a(feature);
+                const sign = (hash & 0x80000000) ? -1 : 1;
+                vector[hash % LOCAL_DIMENSION] += sign * value;
+            }
+
+            const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+            return norm === 0 ? vector : vector.map(value => value / norm);
+        },
+    };
+}
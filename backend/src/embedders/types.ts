@@ -0,0 +1,20 @@
+// --- SHARED EMBEDDER TYPES ---
+// Ingestion and querying both embed text through an Embedder. The embedder's model name and
+// dimension are recorded with the index so the two sides can never silently disagree.
+
+export interface Embedder {
+    /** Identifies the embedding space (e.g. "gemini:embedding-001"). Vectors from different models are not comparable. */
+    readonly model: string;
+
+    /** Length of every vector returned by embed(). */
+    readonly dimension: number;
+
+    /**
+     * Default cosine similarity below which a match is treated as unrelated.
+     * Score distributions differ widely between models, so each embedder supplies its own.
+     */
+    readonly minRelevanceScore: number;
+
+    /** Embeds a single text. */
+    embed(text: string): Promise<number[]>;
+}
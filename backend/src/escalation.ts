@@ -0,0 +1,56 @@
+import type { Session } from './sessionStore.js';
+
+// --- CONFIGURATION ---
+// ESCALATE_AFTER_NO_ANSWERS   Consecutive "no answer" outcomes after which a ticket is created automatically (0 disables).
+// ESCALATE_ON_SENTIMENT       'false' to stop escalating strongly negative messages automatically.
+// ESCALATION_SENTIMENT_SCORE  Negative-sentiment score at or above which a message counts as strongly negative.
+const ESCALATE_AFTER_NO_ANSWERS = Number(process.env.ESCALATE_AFTER_NO_ANSWERS ?? 2);
+const ESCALATE_ON_SENTIMENT = process.env.ESCALATE_ON_SENTIMENT !== 'false';
+const ESCALATION_SENTIMENT_SCORE = Number(process.env.ESCALATION_SENTIMENT_SCORE || 2);
+
+// Words and phrases that signal frustration, each worth one point
+const NEGATIVE_TERMS = [
+    'useless', 'terrible', 'awful', 'horrible', 'worst', 'ridiculous', 'unacceptable', 'pathetic',
+    'frustrated', 'frustrating', 'annoyed', 'annoying', 'angry', 'furious', 'fed up', 'sick of',
+    'hate', 'stupid', 'waste of time', 'not helpful', 'unhelpful', 'doesn\'t help', 'not working',
+    'scam', 'rip off', 'ripoff', 'disgusting', 'joke', 'again and again', 'still waiting',
+];
+
+const NEGATIVE_PATTERN = new RegExp(`\\b(${NEGATIVE_TERMS.map(term => term.replace(/'/g, "'?")).join('|')})\\b`, 'gi');
+
+/**
+ * Scores how negative a message is with a small lexicon: one point per negative term,
+ * plus half a point each for repeated exclamation marks and for shouting (several all-caps words).
+ * @param text The user's message.
+ */
+export function negativeSentimentScore(text: string): number {
+    let score = (text.match(NEGATIVE_PATTERN) ?? []).length;
+    if (/!{2,}/.test(text)) score += 0.5;
+    if ((text.match(/\b[A-Z]{3,}\b/g) ?? []).filter(word => !/\d/.test(word)).length >= 2) score += 0.5;
+    return score;
+}
+
+/**
+ * Whether a message is negative enough to hand the conversation to a person.
+ */
+export function isStronglyNegative(text: string): boolean {
+    return ESCALATE_ON_SENTIMENT && negativeSentimentScore(text) >= ESCALATION_SENTIMENT_SCORE;
+}
+
+/**
+ * Whether another "no answer" outcome would reach the escalation limit, counting the
+ * consecutive most recent assistant turns that had no answer.
+ * @param session The conversation so far (not including the current turn).
+ */
+export function noAnswerLimitReached(session: Session | undefined): boolean {
+    if (!session || ESCALATE_AFTER_NO_ANSWERS <= 0) return false;
+
+    let consecutive = 1; // The current turn
+    for (let i = session.turns.length - 1; i >= 0; i--) {
+        const turn = session.turns[i];
+        if (turn.role !== 'assistant') continue;
+        if (turn.outcome !== 'no_answer') break;
+        consecutive++;
+    }
+    return consecutive >= ESCALATE_AFTER_NO_ANSWERS;
+}
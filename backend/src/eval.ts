@@ -0,0 +1,200 @@
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// --- CONFIGURATION ---
+// EVAL_GOLDEN_PATH      The golden question set (default data/eval/golden.json).
+// EVAL_RECORDINGS_PATH  Recorded chat model outputs for --recorded (default data/eval/recordings.json).
+// Pass --verbose to see the pipeline's own logs and every question's result, not only the misses.
+// Pass --recorded to classify every question with the LLM classifier and answer with the answer prompt,
+// replaying the recorded outputs instead of calling a provider (see chatModels/recordedChatModel.ts).
+const EVAL_GOLDEN_PATH = process.env.EVAL_GOLDEN_PATH || path.join(process.cwd(), 'data', 'eval', 'golden.json');
+const EVAL_RECORDINGS_PATH = process.env.EVAL_RECORDINGS_PATH || path.join(process.cwd(), 'data', 'eval', 'recordings.json');
+const VERBOSE = process.argv.includes('--verbose');
+const RECORDED = process.argv.includes('--recorded');
+
+// The evaluation must be repeatable and run without network access, so it pins every backend to its
+// offline implementation before the pipeline is loaded: the local embedder, an in-memory vector
+// store built from the knowledge-base data, the local intent classifier, the local order data and
+// the extractive chat model. The extractive model answers with the top-ranked context passage, as
+// an extractive model would, so a change in scores reflects a change in routing or retrieval.
+// With --recorded, the LLM classifier decides every query and recorded outputs stand in for the models.
+// Tickets from escalation questions go to a throwaway file, order changes stay in memory, and
+// guardrail triggers are only printed.
+Object.assign(process.env, {
+    EMBEDDER: 'local',
+    VECTOR_STORE: 'memory',
+    INTENT_CLASSIFIER: RECORDED ? 'llm' : 'local',
+    ORDER_SERVICE: 'local',
+    ORDERS_STATE_PATH: 'off',
+    ORDER_VERIFICATION: 'false',
+    TICKETS_PATH: path.join(os.tmpdir(), `eval-tickets-${process.pid}.json`),
+    TICKET_WEBHOOK_URL: '',
+    GUARDRAIL_LOG_PATH: 'off',
+    CHAT_PROVIDER: 'extractive',
+});
+
+// One question of the golden set
+interface GoldenQuestion {
+    id: string;
+    question: string;
+    previousTurns?: string[]; // Said first, in the same conversation (e.g. the request a yes/no question confirms)
+    expectedIntent: string;
+    expectedDocIds?: string[]; // Knowledge-base documents the answer should be grounded in (RAG questions)
+    requiredFacts?: string[]; // Phrases the answer must contain (case-insensitive)
+    expectedOutcome?: 'answered' | 'no_answer'; // For RAG questions; 'no_answer' for off-topic questions the knowledge base must not answer
+}
+
+interface GoldenSet {
+    k: number; // Cut-off for recall@K
+    thresholds: Partial<Record<MetricName, number>>; // Minimum scores; the run fails below any of them
+    questions: GoldenQuestion[];
+}
+
+type MetricName = 'intentAccuracy' | 'recallAtK' | 'mrr' | 'factCoverage' | 'outcomeAccuracy';
+
+interface QuestionResult {
+    id: string;
+    intent: string;
+    intentCorrect: boolean;
+    classifierFailed?: boolean; // With --recorded: the LLM classifier failed and the local fallback decided
+    retrievedDocIds: string[];
+    recall?: number; // Only for questions with expected documents
+    reciprocalRank?: number;
+    factCoverage?: number; // Only for questions with required facts
+    missingFacts: string[];
+    outcome?: string;
+    outcomeCorrect?: boolean; // Only for questions with an expected outcome
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 1);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Scores one answered question against its golden expectations.
+ */
+function scoreQuestion(golden: GoldenQuestion, intent: string, answer: string, outcome: string | undefined, retrievedDocIds: string[], k: number): QuestionResult {
+    const result: QuestionResult = {
+        id: golden.id,
+        intent,
+        intentCorrect: intent === golden.expectedIntent,
+        retrievedDocIds,
+        missingFacts: [],
+        outcome,
+    };
+
+    if (golden.expectedOutcome) {
+        result.outcomeCorrect = outcome === golden.expectedOutcome;
+    }
+
+    if (golden.expectedDocIds?.length) {
+        const expected = new Set(golden.expectedDocIds);
+        const topK = retrievedDocIds.slice(0, k);
+        // Several chunks of one document can be retrieved; each expected document counts once
+        result.recall = new Set(topK.filter(docId => expected.has(docId))).size / expected.size;
+        const rank = retrievedDocIds.findIndex(docId => expected.has(docId));
+        result.reciprocalRank = rank >= 0 ? 1 / (rank + 1) : 0;
+    }
+
+    if (golden.requiredFacts?.length) {
+        const normalizedAnswer = answer.toLowerCase();
+        result.missingFacts = golden.requiredFacts.filter(fact => !normalizedAnswer.includes(fact.toLowerCase()));
+        result.factCoverage = 1 - result.missingFacts.length / golden.requiredFacts.length;
+    }
+
+    return result;
+}
+
+// --- EVALUATION ---
+async function runEvaluation(): Promise<boolean> {
+    const golden: GoldenSet = JSON.parse(fs.readFileSync(EVAL_GOLDEN_PATH, 'utf-8'));
+
+    // Loaded only now, so the offline settings above are in place when the modules read them
+    const { processQuery } = await import('./rag.js');
+    const { createSession } = await import('./sessionStore.js');
+    if (RECORDED) {
+        const { createRecordedChatModel } = await import('./chatModels/index.js');
+        const { useIntentModel } = await import('./intents/index.js');
+        const { useAnswerModel } = await import('./knowledgeBase.js');
+        const model = createRecordedChatModel(JSON.parse(fs.readFileSync(EVAL_RECORDINGS_PATH, 'utf-8')));
+        useIntentModel(model);
+        useAnswerModel(model);
+    }
+
+    console.log(`\n--- Evaluating ${golden.questions.length} questions from ${EVAL_GOLDEN_PATH}${RECORDED ? ` with the model outputs recorded in ${EVAL_RECORDINGS_PATH}` : ''} ---`);
+
+    // The pipeline logs every step; keep the report readable unless asked for everything
+    const log = console.log;
+    if (!VERBOSE) console.log = () => {};
+
+    const results: QuestionResult[] = [];
+    for (const question of golden.questions) {
+        // Each question gets a fresh session (which is never saved), so no question sees another's history
+        const session = createSession();
+        for (const turn of question.previousTurns ?? []) {
+            const earlier = await processQuery(turn, { session });
+            session.turns.push(
+                { role: 'user', text: turn, timestamp: Date.now() },
+                { role: 'assistant', text: earlier.answer, intent: earlier.intent, outcome: earlier.outcome, timestamp: Date.now() },
+            );
+        }
+        const response = await processQuery(question.question, { session });
+        const result = scoreQuestion(question, response.intent, response.answer, response.outcome, response.sources.map(source => source.doc_id), golden.k);
+        // The LLM classifier failing (e.g. no recording matched its prompt) is a miss even if the local fallback guessed right
+        if (RECORDED && response.classifier === 'local_fallback') {
+            result.intentCorrect = false;
+            result.classifierFailed = true;
+        }
+        results.push(result);
+    }
+    console.log = log;
+
+    // --- REPORT ---
+    for (const result of results) {
+        const missed = !result.intentCorrect || result.recall === 0 || result.missingFacts.length > 0 || result.outcomeCorrect === false;
+        if (!missed && !VERBOSE) continue;
+        const question = golden.questions.find(candidate => candidate.id === result.id)!;
+        console.log(`${missed ? '❌' : '✅'} ${result.id}: "${question.question}"`);
+        if (result.classifierFailed) console.log(`     intent: the LLM classifier failed (see --verbose), the local fallback chose ${result.intent}`);
+        else if (!result.intentCorrect) console.log(`     intent: got ${result.intent}, expected ${question.expectedIntent}`);
+        if (result.recall !== undefined && result.recall < 1) console.log(`     retrieved: [${result.retrievedDocIds.join(', ')}], expected [${question.expectedDocIds!.join(', ')}]`);
+        if (result.outcomeCorrect === false) console.log(`     outcome: got ${result.outcome ?? 'none'}, expected ${question.expectedOutcome}`);
+        if (result.missingFacts.length > 0) console.log(`     missing facts: ${result.missingFacts.map(fact => `"${fact}"`).join(', ')}`);
+    }
+
+    const metrics: Record<MetricName, number> = {
+        intentAccuracy: average(results.map(result => (result.intentCorrect ? 1 : 0))),
+        recallAtK: average(results.flatMap(result => (result.recall !== undefined ? [result.recall] : []))),
+        mrr: average(results.flatMap(result => (result.reciprocalRank !== undefined ? [result.reciprocalRank] : []))),
+        factCoverage: average(results.flatMap(result => (result.factCoverage !== undefined ? [result.factCoverage] : []))),
+        outcomeAccuracy: average(results.flatMap(result => (result.outcomeCorrect !== undefined ? [result.outcomeCorrect ? 1 : 0] : []))),
+    };
+    const labels: Record<MetricName, string> = {
+        intentAccuracy: 'Intent accuracy',
+        recallAtK: `Retrieval recall@${golden.k}`,
+        mrr: 'Retrieval MRR',
+        factCoverage: 'Answer-fact coverage',
+        outcomeAccuracy: 'No-answer accuracy',
+    };
+
+    let passed = true;
+    console.log('');
+    for (const name of Object.keys(metrics) as MetricName[]) {
+        const threshold = golden.thresholds[name];
+        const ok = threshold === undefined || metrics[name] >= threshold;
+        if (!ok) passed = false;
+        console.log(`${ok ? '✅' : '❌'} ${labels[name].padEnd(24)} ${percent(metrics[name]).padStart(6)}${threshold !== undefined ? `  (minimum ${percent(threshold)})` : ''}`);
+    }
+
+    console.log(`--- Evaluation ${passed ? 'passed' : 'FAILED'} ---\n`);
+    return passed;
+}
+
+runEvaluation()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+        console.error("❌ ERROR during evaluation:", error);
+        process.exit(1);
+    });
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { KnowledgeBaseDocument } from './knowledgeBaseData.js';
+
+// --- CONFIGURATION ---
+export const FAQ_DATA_PATH = path.join(process.cwd(), 'data', 'faq.json');
+
+// Define the structure of the data records
+export interface FaqRecord {
+    id: string;
+    doc_id: string;
+    question: string;
+    answer: string;
+    url?: string; // Canonical help-center page for this entry, used for citations
+}
+
+/**
+ * Loads and parses the FAQ knowledge base.
+ */
+export function loadFaqRecords(): FaqRecord[] {
+    return JSON.parse(fs.readFileSync(FAQ_DATA_PATH, 'utf-8'));
+}
+
+/**
+ * Hashes the current contents of faq.json so a stale index can be detected.
+ */
+export function fingerprintFaqData(): string {
+    return createHash('sha256').update(fs.readFileSync(FAQ_DATA_PATH)).digest('hex');
+}
+
+/**
+ * Builds the knowledge-base document for an FAQ entry. The embedded text is the question and answer combined.
+ * @param record The FAQ entry.
+ */
+export function faqRecordDocument(record: FaqRecord): KnowledgeBaseDocument {
+    return {
+        id: record.id,
+        text: `${record.question} ${record.answer}`,
+        metadata: {
+            id: record.id,
+            doc_id: record.doc_id,
+            doc_type: 'faq',
+            question: record.question,
+            answer: record.answer,
+            url: record.url ?? '',
+        },
+    };
+}
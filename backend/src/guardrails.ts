@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RankedMatch } from './retrieval.js';
+
+// --- CONFIGURATION ---
+// GUARDRAILS            'off' disables the input and output guards (over-long queries are still rejected).
+// MAX_QUERY_LENGTH      Longest query accepted, in characters.
+// OUTPUT_MIN_GROUNDING  Share of an answer's content words that must appear in the retrieved context (0 disables).
+// GUARDRAIL_LOG_PATH    JSONL file every guardrail trigger is appended to for review ('off' to disable).
+const GUARDRAILS_ENABLED = process.env.GUARDRAILS !== 'off';
+export const MAX_QUERY_LENGTH = Number(process.env.MAX_QUERY_LENGTH || 1000);
+const OUTPUT_MIN_GROUNDING = Number(process.env.OUTPUT_MIN_GROUNDING ?? 0.35);
+const GUARDRAIL_LOG_PATH = process.env.GUARDRAIL_LOG_PATH || path.join(process.cwd(), 'data', 'guardrail-events.jsonl');
+
+// Answers with fewer content words than this are too short to judge for grounding ("Yes, within 30 days.")
+const MIN_WORDS_FOR_GROUNDING = 8;
+
+export type GuardrailReason =
+    | 'too_long' // The query exceeds MAX_QUERY_LENGTH
+    | 'prompt_injection' // The query tries to change the assistant's instructions
+    | 'unknown_citation' // The answer cites a document that was not in the retrieved context
+    | 'prompt_leak' // The answer repeats the system prompt
+    | 'policy_violation' // The answer asks for secrets or uses abusive language
+    | 'off_topic'; // The answer is not about the retrieved context
+
+// Why a query or answer was blocked
+export interface GuardrailTrigger {
+    stage: 'input' | 'output';
+    reason: GuardrailReason;
+    detail: string; // The rule that matched, for review
+}
+
+// Said instead of an answer when a guard blocks; the wording never reveals which rule matched
+const REFUSALS: Record<GuardrailTrigger['stage'], string> = {
+    input: "I can only help with questions about our products, orders, shipping, returns and policies. Could you rephrase your question?",
+    output: "I'm sorry, I can't give you a reliable answer to that. Could you rephrase your question, or ask to talk to a person?",
+};
+const TOO_LONG_REFUSAL = "That message is too long for me to handle. Could you shorten it to the key question?";
+
+// Phrasings that try to override, reveal or replace the assistant's instructions, or smuggle in
+// the classifier's output format
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+    // Only the assistant's own instructions: "ignore your previous instructions", not "override the shipping rules"
+    { name: 'override_instructions', pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.?!\n]{0,20}\b(your|previous|prior|above|earlier|preceding|system|initial|original)\b[^.?!\n]{0,20}\b(instructions?|rules|prompts?|guidelines|directions)\b/i },
+    { name: 'reveal_instructions', pattern: /\b(reveal|print|show|repeat|output|leak)\b[^.?!\n]{0,30}\b(system prompt|prompt|instructions|system message)\b/i },
+    // Only a mode or prompt for the assistant itself: "enter developer mode", "new system prompt:", not "turn on developer mode on my phone"
+    { name: 'system_prompt', pattern: /^\W*(please\s+)?(now\s+)?(enter|enable|activate|switch (in)?to|turn on|go into)\s+(developer|debug|admin|god|unrestricted)\s+mode\b(?!\s+(on|in|for|of)\b)|\byou('re| are)( now)? in (developer|debug|admin|god|unrestricted) mode\b|\b(your|new|updated)\s+(system|developer)\s+(prompt|message)\b|\b(system|developer) (prompt|message)\s*[:=]/i },
+    { name: 'role_play', pattern: /\byou are now\b|\bfrom now on,? you\b|\bpretend (to be|you are)\b|\bact as (an?|the|my) (ai|assistant|bot|model|admin|developer)\b/i },
+    { name: 'role_marker', pattern: /(^|\n)\s*(system|assistant)\s*:|<\/?(system|assistant|im_start|im_end)\b|\[\/?INST\]|<\|/i },
+    // Only the classifier's JSON keys or an intent name: '"intent": ...', '{slots: ...}', 'intent=Escalate', not "my intent: return it"
+    { name: 'classifier_output', pattern: /["'](intent|slots|standaloneQuery)["']\s*[:=]|\{\s*(intent|slots|standaloneQuery)\s*[:=]|\bstandaloneQuery\s*[:=]|\bintent\s*[:=]\s*["']?([a-z]+_[a-z_]+|rag)\b/i },
+    { name: 'jailbreak', pattern: /\bjailbr[eo]a?k|\bDAN mode\b/i },
+];
+
+// Secrets the assistant must never ask a customer for
+const SECRETS = String.raw`(password|passcode|PIN|CVV|CVC|security code|card number|social security number)`;
+
+// Things an answer must never contain. Rules marked quotableFromContext allow text that the retrieved
+// context contains word for word (e.g. a help article telling customers where to enter a gift card's PIN).
+const POLICY_PATTERNS: { name: string; reason: GuardrailReason; pattern: RegExp; quotableFromContext?: boolean }[] = [
+    { name: 'system_prompt_text', reason: 'prompt_leak', pattern: /\bCONTEXT:|answer the user's question ONLY|Example response format|my (system )?instructions\b/i },
+    // The assistant asking for a secret: "send me your PIN", "please provide your card number", "what is your password?"
+    {
+        name: 'credential_request',
+        reason: 'policy_violation',
+        pattern: new RegExp(String.raw`\b(send|share|give|tell|provide|confirm|read|type)\s+(it\s+to\s+)?(me|us)\b[^.?!]{0,30}\b${SECRETS}\b|\b(send|give|provide|confirm)\s+(me\s+|us\s+)?your\b[^.?!]{0,30}\b${SECRETS}\b|\bwhat('s| is) your\b[^.?!]{0,20}\b${SECRETS}\b`, 'i'),
+        quotableFromContext: true,
+    },
+    { name: 'abusive_language', reason: 'policy_violation', pattern: /\b(fuck\w*|shit\w*|bitch\w*|asshole|bastard|idiot|moron)\b/i },
+    { name: 'model_disclaimer', reason: 'off_topic', pattern: /\bas an AI( language model)?\b/i },
+    { name: 'code_block', reason: 'off_topic', pattern: /```/ },
+];
+
+// Citations in the formats the answer prompt asks for: "(from X doc)", "(from X doc, section "Y")" and "(SKU X)"
+const DOC_CITATION_PATTERN = /\((?:from|Source:) ([^()]+?) doc\b[^)]*\)/gi;
+const SKU_CITATION_PATTERN = /\bSKU ([A-Z0-9][A-Z0-9-]*)/g;
+
+// Common words that say nothing about whether an answer stays on the context's topic
+const STOP_WORDS = new Set([
+    'about', 'also', 'been', 'can\'t', 'could', 'does', 'don\'t', 'each', 'from', 'glad', 'happy', 'have', 'help', 'here',
+    'into', 'just', 'let\'s', 'like', 'more', 'need', 'only', 'other', 'please', 'should', 'some', 'sorry', 'such', 'sure',
+    'than', 'thank', 'thanks', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'very', 'want',
+    'were', 'what', 'when', 'where', 'which', 'will', 'with', 'would', 'you\'re', 'your', 'yours',
+]);
+
+/**
+ * Quotes user text for inclusion in a prompt: a JSON string literal, so quotes, newlines and
+ * backslashes are escaped and the text cannot close its quotes and continue as instructions.
+ */
+export function quoteUserText(text: string): string {
+    return JSON.stringify(text);
+}
+
+/**
+ * What to say when a guard blocks a query or answer.
+ */
+export function refusalFor(trigger: GuardrailTrigger): string {
+    return trigger.reason === 'too_long' ? TOO_LONG_REFUSAL : REFUSALS[trigger.stage];
+}
+
+/**
+ * Checks a user query before it reaches the classifier or a chat model.
+ * @returns The trigger if the query must be refused, or null if it may be processed.
+ */
+export function checkInput(query: string): GuardrailTrigger | null {
+    if (query.length > MAX_QUERY_LENGTH) {
+        return { stage: 'input', reason: 'too_long', detail: `${query.length} characters (limit ${MAX_QUERY_LENGTH})` };
+    }
+    if (!GUARDRAILS_ENABLED) return null;
+    const injection = INJECTION_PATTERNS.find(({ pattern }) => pattern.test(query));
+    return injection ? { stage: 'input', reason: 'prompt_injection', detail: injection.name } : null;
+}
+
+/**
+ * Lowercased content words of a text: at least four letters long and not a stop word.
+ */
+function contentWords(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z][a-z']{3,}/g) ?? []).filter(word => !STOP_WORDS.has(word));
+}
+
+/**
+ * Checks a generated answer against the context it was supposed to be grounded in:
+ * every cited document or SKU must be among the retrieved matches, the answer must not leak the
+ * prompt or break policy, and enough of its wording must come from the context to be on topic.
+ * @param answer The generated answer.
+ * @param matches The matches that were passed to the model as context.
+ * @returns The trigger if the answer must be replaced with a refusal, or null if it may be sent.
+ */
+export function checkOutput(answer: string, matches: RankedMatch[]): GuardrailTrigger | null {
+    if (!GUARDRAILS_ENABLED) return null;
+
+    const docIds = new Set(matches.map(match => match.metadata.doc_id.toLowerCase()));
+    for (const [, docId] of answer.matchAll(DOC_CITATION_PATTERN)) {
+        if (!docIds.has(docId.trim().toLowerCase())) {
+            return { stage: 'output', reason: 'unknown_citation', detail: `cited "${docId.trim()}"` };
+        }
+    }
+    // A product's text names its variants' SKUs, so any SKU that appears in the context may be cited
+    const contextSkus = new Set(matches.flatMap(match => [match.metadata.sku ?? '', ...(`${match.metadata.answer}`.match(/\b[A-Z0-9]+(?:-[A-Z0-9]+)+\b/g) ?? [])]));
+    for (const [, sku] of answer.matchAll(SKU_CITATION_PATTERN)) {
+        if (!contextSkus.has(sku)) {
+            return { stage: 'output', reason: 'unknown_citation', detail: `cited SKU ${sku}` };
+        }
+    }
+
+    const contextText = matches.map(match => `${match.metadata.question} ${match.metadata.answer}`).join(' ').toLowerCase();
+    const violation = POLICY_PATTERNS.find(({ pattern, quotableFromContext }) => {
+        const found = answer.match(pattern);
+        return !!found && !(quotableFromContext && contextText.includes(found[0].toLowerCase()));
+    });
+    if (violation) {
+        return { stage: 'output', reason: violation.reason, detail: violation.name };
+    }
+
+    // Citations name the context's documents, so they are left out of the grounding measure
+    const words = contentWords(answer.replace(DOC_CITATION_PATTERN, '').replace(SKU_CITATION_PATTERN, ''));
+    if (OUTPUT_MIN_GROUNDING > 0 && words.length >= MIN_WORDS_FOR_GROUNDING) {
+        const contextWords = new Set(contentWords(contextText));
+        const grounding = words.filter(word => contextWords.has(word)).length / words.length;
+        if (grounding < OUTPUT_MIN_GROUNDING) {
+            return { stage: 'output', reason: 'off_topic', detail: `grounding ${grounding.toFixed(2)} (minimum ${OUTPUT_MIN_GROUNDING})` };
+        }
+    }
+    return null;
+}
+
+/**
+ * Logs a guardrail trigger and appends it to GUARDRAIL_LOG_PATH for review.
+ * A logging failure never affects the response.
+ * @param trigger What was blocked and why.
+ * @param text The blocked query or answer.
+ */
+export function recordGuardrailTrigger(trigger: GuardrailTrigger, text: string): void {
+    console.warn(`🚨 [Guardrails] Blocked ${trigger.stage} (${trigger.reason}: ${trigger.detail}): ${text.slice(0, 200)}`);
+    if (GUARDRAIL_LOG_PATH === 'off') return;
+    try {
+        fs.mkdirSync(path.dirname(GUARDRAIL_LOG_PATH), { recursive: true });
+        fs.appendFileSync(GUARDRAIL_LOG_PATH, `${JSON.stringify({ timestamp: new Date().toISOString(), ...trigger, text })}\n`);
+    } catch (error) {
+        console.error(`❌ [Guardrails] Could not write to ${GUARDRAIL_LOG_PATH}:`, error);
+    }
+}
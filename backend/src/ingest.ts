@@ -1,190 +1,144 @@
 import 'dotenv/config';
-import { Pinecone } from '@pinecone-database/pinecone';
-import { GoogleGenAI } from '@google/genai'; 
-import * as fs from 'fs';
-import * as path from 'path';
+import { createVectorStore } from './vectorStores/index.js';
+import { createEmbedder, indexMetadataFor } from './embedders/index.js';
+import { createKnowledgeBaseSeed, embedDocument, hashDocument, loadKnowledgeBaseDocuments, type KnowledgeBaseDocument } from './knowledgeBaseData.js';
+import { INGEST_MANIFEST_PATH, createIngestManifest, loadIngestManifest, manifestMatches, planIngestion, saveIngestManifest, type IngestPlan } from './ingestManifest.js';
 
 // --- CONFIGURATION ---
-const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
-const PINECONE_INDEX = process.env.PINECONE_INDEX || "faq-index";
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const DATA_PATH = path.join(process.cwd(), 'data', 'faq.json');
-const EMBEDDING_MODEL = 'embedding-001';
-const EMBEDDING_DIMENSION = 768; // Dimension for embedding-001
-
-if (!PINECONE_API_KEY) {
-    throw new Error("PINECONE_API_KEY is not set.");
-}
-if (!GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY is not set. Required for Google embeddings.");
-}
-
-// Define the structure of the data records
-interface FaqRecord {
-    id: string;
-    doc_id: string;
-    question: string;
-    answer: string;
-}
-
-// --- GOOGLE EMBEDDING FUNCTION ---
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
-
-// Flag to track if we need to use the mock function due to quota issues
-let useMockEmbedding = false;
+// INGEST_BATCH_SIZE  Records embedded and upserted (or deleted) per request.
+// Flags:
+//   --dry-run   Print the planned adds, updates and deletes without embedding or writing anything.
+//   --full      Clear the index and re-embed every record, ignoring the manifest. This also happens when
+//               the store holds records but there is no manifest to tell which of them are current.
+//   --recreate  Allow rebuilding an index that was built with a different embedder or dimension.
+const INGEST_BATCH_SIZE = Math.max(1, Number(process.env.INGEST_BATCH_SIZE || 50));
+const DRY_RUN = process.argv.includes('--dry-run');
+const FULL = process.argv.includes('--full');
+const RECREATE = process.argv.includes('--recreate');
 
 /**
- * Generates an embedding for a text chunk using the Google embedding model, 
- * or falls back to a mock vector if a quota limit is hit.
- * @param text The text to embed.
- * @returns The embedding vector (array of numbers).
+ * Splits a list into batches of at most INGEST_BATCH_SIZE items.
  */
-async function generateGoogleEmbedding(text: string): Promise<number[]> {
-    if (useMockEmbedding) {
-        // Fallback to mock embedding
-        return Array.from({ length: EMBEDDING_DIMENSION }, () => Math.random() - 0.5);
+function batches<T>(items: T[]): T[][] {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += INGEST_BATCH_SIZE) {
+        result.push(items.slice(i, i + INGEST_BATCH_SIZE));
     }
-    
-    try {
-        const result = await ai.models.embedContent({ 
-            model: EMBEDDING_MODEL,
-            contents: [text], 
-        });
+    return result;
+}
 
-        if (!result.embeddings?.[0]?.values) { 
-            throw new Error("Google Embedding API returned an empty result or missing embedding values.");
-        }
-        
-        return result.embeddings[0].values;
-        
-    } catch (error: any) {
-        // Check for specific API error indicating quota exhaustion (status 429)
-        if (error.status === 429 || error.message?.includes("Quota exceeded")) {
-            console.warn("\n🚨 WARNING: Google Embedding Quota Exceeded. Falling back to mock embeddings for the remainder of ingestion.");
-            useMockEmbedding = true; // Set flag to use mock for all subsequent calls
-            
-            // Generate mock vector for the current failed call
-            return Array.from({ length: EMBEDDING_DIMENSION }, () => Math.random() - 0.5);
-        }
-        throw error;
-    }
+/**
+ * Prints the planned changes, one line per record.
+ */
+function printPlan(plan: IngestPlan): void {
+    plan.add.forEach(document => console.log(`  + add     ${document.id}`));
+    plan.update.forEach(document => console.log(`  ~ update  ${document.id}`));
+    plan.delete.forEach(id => console.log(`  - delete  ${id}`));
+    console.log(`Plan: ${plan.add.length} to add, ${plan.update.length} to update, ${plan.delete.length} to delete, ${plan.unchanged} unchanged.`);
 }
 
 // --- INGESTION LOGIC ---
+// Ingestion is incremental and idempotent: a manifest records the content hash of every record
+// written, so each run embeds only new or changed records and deletes vectors whose source
+// record is gone. Running it again without source changes does nothing.
 async function ingestData() {
-    console.log(`\n--- Starting Data Ingestion into Pinecone Index: ${PINECONE_INDEX} ---`);
+    // The embedder is selected by EMBEDDER and the store by VECTOR_STORE;
+    // with Pinecone, writes are mirrored to the local store.
+    const embedder = createEmbedder();
+    const vectorStore = createVectorStore(createKnowledgeBaseSeed(embedder));
+    const embedderMetadata = indexMetadataFor(embedder);
+    console.log(`\n--- Starting ${DRY_RUN ? 'Dry Run of ' : ''}Data Ingestion into Vector Store: ${vectorStore.name} (embedder: ${embedder.model}) ---`);
 
     try {
-        // 1. Initialize Pinecone client
-        const pc = new Pinecone({ apiKey: PINECONE_API_KEY! });
-        
-        // --- 1a. Check/Create/Recreate Index with correct dimension ---
-        const indexName = PINECONE_INDEX!;
-        const indexList = await pc.listIndexes();
-        const existingIndexInfo = indexList.indexes?.find(i => i.name === indexName);
-        let indexNeedsCreation = true;
-
-        if (existingIndexInfo) {
-            console.log(`Index ${indexName} found. Checking dimension...`);
-            try {
-                // Get the index description to check its dimension
-                const indexDescription = await pc.describeIndex(indexName);
-                const currentDimension = indexDescription.dimension;
-
-                if (currentDimension === EMBEDDING_DIMENSION) {
-                    console.log(`Index dimension is correct (${EMBEDDING_DIMENSION}). Skipping creation.`);
-                    indexNeedsCreation = false;
-                } else {
-                    console.log(`Mismatch detected! Index dimension is ${currentDimension}, but should be ${EMBEDDING_DIMENSION}.`);
-                    console.log(`Deleting index ${indexName} to ensure correct dimension...`);
-                    
-                    await pc.deleteIndex(indexName);
-                    console.log('Deletion successful. Waiting for cleanup...');
-                    // Wait longer (10s) for the index to fully delete before recreating
-                    await new Promise(resolve => setTimeout(resolve, 10000)); 
-                }
-            } catch (describeError: any) {
-                // Handle case where describeIndex fails (e.g., index is currently being deleted/recreated)
-                console.warn(`Could not describe index ${indexName}. Assuming a temporary state and forcing index deletion/recreation.`);
-                indexNeedsCreation = true;
-                
-                // CRITICAL FIX: If describe failed, the index might exist but be in a bad state (like 1536D or half-deleted). 
-                // We MUST attempt to delete it now to avoid the 409 Conflict error on recreation.
-                console.log(`Attempting preliminary index deletion to clear conflict...`);
-                try {
-                    await pc.deleteIndex(indexName);
-                    console.log('Preliminary deletion successful. Waiting for cleanup...');
-                    await new Promise(resolve => setTimeout(resolve, 10000));
-                } catch(deleteError: any) {
-                    // Log the error but continue. The index may already be gone or in a non-deleteable state, 
-                    // but the create attempt is our next step anyway.
-                    console.warn(`Warning: Deletion attempt failed during error handling: ${deleteError.message || 'Unknown error'}. Continuing to creation.`);
-                }
+        // 1. Check the index was built with this embedder. Rebuilding it throws every vector away,
+        //    so that only happens when asked for explicitly.
+        const description = await vectorStore.describe();
+        const storeDimension = description.metadata?.dimension ?? description.dimension;
+        const embedderChanged = (storeDimension !== null && storeDimension !== embedder.dimension)
+            || (!!description.metadata && description.metadata.embeddingModel !== embedder.model);
+        if (embedderChanged) {
+            const mismatch = `The index was built with ${description.metadata?.embeddingModel ?? 'an unknown embedder'} (${storeDimension}D), but ingestion uses ${embedder.model} (${embedder.dimension}D).`;
+            if (!RECREATE && !DRY_RUN) {
+                console.error(`❌ ${mismatch} Re-run with --recreate to rebuild the index from scratch, or change EMBEDDER.`);
+                process.exitCode = 1;
+                return;
             }
+            console.log(`${mismatch} The index will be rebuilt${RECREATE ? '' : ' (requires --recreate)'}.`);
         }
 
-        if (indexNeedsCreation) {
-             console.log(`Creating index ${indexName} with dimension ${EMBEDDING_DIMENSION}...`);
-             await pc.createIndex({
-                 name: indexName,
-                 dimension: EMBEDDING_DIMENSION, 
-                 spec: { 
-                    serverless: { 
-                        cloud: 'aws', 
-                        region: 'us-east-1' 
-                    } 
-                 }
-             });
-             console.log(`Index ${indexName} created. Waiting for readiness...`);
-             // Wait for index creation/readiness
-             await new Promise(resolve => setTimeout(resolve, 5000));
+        // 2. Decide what the store already holds. A manifest for another store or embedder, or one
+        //    listing records the store no longer has, cannot be trusted to skip anything.
+        let manifest = loadIngestManifest();
+        if (manifest && !manifestMatches(manifest, vectorStore.name, embedderMetadata)) {
+            console.log(`Manifest at ${INGEST_MANIFEST_PATH} was written for ${manifest.vectorStore} (${manifest.embedder.embeddingModel}). Ingesting every record.`);
+            manifest = null;
         }
-        
-        const index = pc.index(indexName);
-
-        // 2. Load and parse FAQ data
-        const rawData = fs.readFileSync(DATA_PATH, 'utf-8');
-        const records: FaqRecord[] = JSON.parse(rawData);
-        
-        console.log(`Loaded ${records.length} records from ${DATA_PATH}`);
+        const storedRecords = description.namespaces['']?.recordCount ?? 0;
+        if (manifest && storedRecords === 0 && Object.keys(manifest.records).length > 0) {
+            console.log(`The store is empty but the manifest lists ${Object.keys(manifest.records).length} records. Ingesting every record.`);
+            manifest = null;
+        }
+        // Without a manifest, nothing says which of the stored vectors are still in the sources (e.g. an
+        // index filled before manifests existed), so the namespace is cleared and every record re-ingested
+        const untracked = !manifest && storedRecords > 0;
+        if (untracked && !FULL && !embedderChanged) {
+            console.log(`No manifest describes the ${storedRecords} records already in ${vectorStore.name}. The namespace will be cleared and every record re-ingested.`);
+        }
+        const rebuild = FULL || embedderChanged || untracked;
+        const baseline = !manifest || rebuild ? createIngestManifest(vectorStore.name, embedderMetadata) : manifest;
 
-        // 3. Prepare vectors for upsert
-        const vectors = [];
-        for (const record of records) {
-            const textToEmbed = `${record.question} ${record.answer}`;
-            
-            // Generate the REAL Google vector (with fallback logic)
-            process.stdout.write(`Embedding record ${record.id} (${useMockEmbedding ? 'MOCK' : 'LIVE'})...`);
-            const vector = await generateGoogleEmbedding(textToEmbed);
-            process.stdout.write(` Done.\n`);
+        // 3. Compare the FAQ entries and product catalog with the manifest
+        const plan = planIngestion(loadKnowledgeBaseDocuments(), baseline);
+        printPlan(plan);
 
-            vectors.push({
-                id: record.id,
-                values: vector,
-                metadata: {
-                    id: record.id, 
-                    doc_id: record.doc_id,
-                    question: record.question,
-                    answer: record.answer,
-                }
-            });
+        if (DRY_RUN) {
+            console.log("Dry run: nothing was embedded, written or deleted.");
+            return;
+        }
+        if (!rebuild && plan.add.length === 0 && plan.update.length === 0 && plan.delete.length === 0) {
+            console.log("✅ The index is already up to date.");
+            return;
         }
 
-        // 4. Upsert vectors to Pinecone (simple upsert for small data)
-        console.log(`Upserting ${vectors.length} vectors to Pinecone...`);
-        
-        await index.upsert(vectors);
+        // 4. Make sure the index exists (recreating it if the embedder changed), and start from an
+        //    empty namespace for a full rebuild so no vector outside the manifest survives
+        await vectorStore.ensureIndex(embedderMetadata, { recreate: RECREATE });
+        if (rebuild) {
+            await vectorStore.deleteAll();
+        }
+        saveIngestManifest(baseline);
+
+        // 5. Delete orphaned vectors, in batches
+        for (const ids of batches(plan.delete)) {
+            console.log(`Deleting ${ids.length} orphaned vectors...`);
+            await vectorStore.delete(ids);
+            ids.forEach(id => delete baseline.records[id]);
+            saveIngestManifest(baseline);
+        }
 
-        console.log("✅ Ingestion successful!");
-        if (useMockEmbedding) {
-             console.log("NOTE: Data was uploaded successfully using MOCK embeddings due to quota limits. Search results will be random.");
+        // 6. Embed and upsert new and changed records, in batches. The manifest is saved after
+        //    every batch, so an interrupted run resumes where it stopped.
+        const changed: KnowledgeBaseDocument[] = [...plan.add, ...plan.update];
+        for (const documents of batches(changed)) {
+            const vectors = [];
+            for (const document of documents) {
+                console.log(`Embedding record ${document.id}...`);
+                vectors.push(await embedDocument(document, embedder));
+            }
+            console.log(`Upserting ${vectors.length} vectors to ${vectorStore.name}...`);
+            await vectorStore.upsert(vectors);
+            documents.forEach(document => { baseline.records[document.id] = hashDocument(document); });
+            saveIngestManifest(baseline);
         }
 
+        console.log(`✅ Ingestion successful! Embedded ${changed.length} records and deleted ${plan.delete.length}.`);
+
     } catch (error) {
         console.error("❌ ERROR during data ingestion:", error);
-        console.error("HINT: If you see a dimension error, the script should now attempt to fix it automatically by deleting and recreating the index.");
+        console.error("HINT: If you hit the Gemini embedding quota, set EMBEDDER=local to ingest with the offline embedder.");
+        process.exitCode = 1;
     }
-    
+
     console.log("--- Data Ingestion Complete ---\n");
 }
 
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashDocument, type KnowledgeBaseDocument } from './knowledgeBaseData.js';
+import type { IndexMetadata } from './vectorStores/index.js';
+
+// --- CONFIGURATION ---
+// INGEST_MANIFEST_PATH  Where ingestion records what it has written (default data/ingest-manifest.json).
+export const INGEST_MANIFEST_PATH = process.env.INGEST_MANIFEST_PATH || path.join(process.cwd(), 'data', 'ingest-manifest.json');
+
+// What the last ingestion wrote to a vector store: one content hash per vector id
+export interface IngestManifest {
+    vectorStore: string; // The store the records were written to (its name)
+    embedder: IndexMetadata; // The embedder that produced the vectors
+    records: Record<string, string>; // Vector id -> content hash
+    updatedAt: string; // ISO 8601
+}
+
+// The changes needed to bring a store in line with the source data
+export interface IngestPlan {
+    add: KnowledgeBaseDocument[]; // Not in the store yet
+    update: KnowledgeBaseDocument[]; // In the store, but the content changed
+    delete: string[]; // Vector ids whose source record was removed
+    unchanged: number;
+}
+
+/**
+ * Reads the manifest.
+ * @returns The manifest, or null if there is none (or it is unreadable, which forces a full ingestion).
+ */
+export function loadIngestManifest(filePath = INGEST_MANIFEST_PATH): IngestManifest | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        console.warn(`[Ingest] Could not read the manifest at ${filePath}. Treating every record as new.`, error);
+        return null;
+    }
+}
+
+/**
+ * Writes the manifest.
+ */
+export function saveIngestManifest(manifest: IngestManifest, filePath = INGEST_MANIFEST_PATH): void {
+    fs.writeFileSync(filePath, JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+/**
+ * Creates an empty manifest for a store and embedder.
+ */
+export function createIngestManifest(vectorStore: string, embedder: IndexMetadata): IngestManifest {
+    return { vectorStore, embedder, records: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Whether a manifest describes the given store and embedder. A manifest for another store or
+ * embedder says nothing about what this one holds, so it must not be used to skip records.
+ */
+export function manifestMatches(manifest: IngestManifest, vectorStore: string, embedder: IndexMetadata): boolean {
+    return manifest.vectorStore === vectorStore
+        && manifest.embedder.embeddingModel === embedder.embeddingModel
+        && manifest.embedder.dimension === embedder.dimension;
+}
+
+/**
+ * Compares the source documents with the manifest:
+ * documents with unknown ids are added, documents whose hash changed are updated,
+ * and ids in the manifest without a source document are deleted.
+ * @param documents The current knowledge-base documents.
+ * @param manifest What was written last time.
+ */
+export function planIngestion(documents: KnowledgeBaseDocument[], manifest: IngestManifest): IngestPlan {
+    const plan: IngestPlan = { add: [], update: [], delete: [], unchanged: 0 };
+    const currentIds = new Set<string>();
+
+    for (const document of documents) {
+        currentIds.add(document.id);
+        const previousHash = manifest.records[document.id];
+        if (previousHash === undefined) {
+            plan.add.push(document);
+        } else if (previousHash !== hashDocument(document)) {
+            plan.update.push(document);
+        } else {
+            plan.unchanged++;
+        }
+    }
+    plan.delete = Object.keys(manifest.records).filter(id => !currentIds.has(id));
+    return plan;
+}
@@ -0,0 +1,98 @@
+import { normalizeSpokenOrderId } from '../dialog.js';
+import { isCatalogToken } from '../productCatalog.js';
+import { createTicketService, generateTicketReference, type EscalationReason, type SupportTicket } from '../tickets/index.js';
+import type { BotResponse, IntentContext, IntentDefinition } from './types.js';
+
+// Where escalation tickets are filed (local file or webhook)
+const ticketService = createTicketService();
+
+/**
+ * Collects the order IDs mentioned anywhere in the conversation, including the current message.
+ * Catalog models and specs ("NC700", "HDR10") look like order IDs and are left out.
+ */
+function collectOrderIds({ query, session, slots }: Pick<IntentContext, 'query' | 'session'> & { slots?: IntentContext['slots'] }): string[] {
+    const ids = new Set<string>();
+    const add = (id: string | null | undefined) => { if (id) ids.add(id); };
+
+    for (const turn of session?.turns ?? []) {
+        if (turn.role === 'user') add(normalizeSpokenOrderId(turn.text, isCatalogToken));
+    }
+    add(normalizeSpokenOrderId(query, isCatalogToken));
+    if (typeof slots?.orderId === 'string') add(normalizeSpokenOrderId(slots.orderId, isCatalogToken));
+    if (session?.dialog?.name === 'awaiting_verification') add(session.dialog.orderId);
+    session?.verification?.verifiedOrderIds.forEach(add);
+    return [...ids];
+}
+
+/**
+ * Spells a ticket reference's digits out in groups of three so text-to-speech reads them clearly.
+ */
+function spellReference(reference: string): string {
+    const digits = reference.replace(/\D/g, '').split('');
+    return `${digits.slice(0, 3).join(' ')}, ${digits.slice(3).join(' ')}`;
+}
+
+/**
+ * Hands the conversation to a person: files a support ticket with the transcript, the detected
+ * intents and any order IDs, and reads the ticket reference back to the user.
+ * @param context The current turn.
+ * @param reason What triggered the escalation.
+ * @param lead Optional text to put before the confirmation (e.g. an answer that was already streamed).
+ */
+export async function escalate(context: Omit<IntentContext, 'standaloneQuery'>, reason: EscalationReason, lead = ''): Promise<BotResponse> {
+    const { query, session, handlers } = context;
+    const now = Date.now();
+    const transcript = [...(session?.turns ?? []), { role: 'user' as const, text: query, timestamp: now }];
+
+    const ticket: SupportTicket = {
+        reference: generateTicketReference(),
+        createdAt: new Date(now).toISOString(),
+        reason,
+        sessionId: session?.id ?? null,
+        summary: query,
+        orderIds: collectOrderIds(context),
+        intents: transcript.flatMap(turn => (turn.role === 'assistant' && turn.intent ? [turn.intent] : [])),
+        transcript,
+    };
+
+    handlers.onIntent?.('Escalate');
+    let answer: string;
+    let ticketReference: string | undefined;
+    try {
+        await ticketService.create(ticket);
+        console.log(`[Escalation] Ticket ${ticket.reference} created (${reason}, orders: ${ticket.orderIds.join(', ') || 'none'}).`);
+        const opener = reason === 'repeated_no_answer'
+            ? "I'm still not able to find an answer, so I've passed your question to our support team."
+            : "I'm sorry for the trouble. I've passed your conversation to our support team, and a member of the team will get back to you.";
+        answer = `${opener} Your ticket reference is **${ticket.reference}**. That's ${spellReference(ticket.reference)}.`;
+        ticketReference = ticket.reference;
+    } catch (error) {
+        console.error(`❌ Could not create escalation ticket ${ticket.reference}:`, error);
+        answer = "I'm sorry, I couldn't create a support ticket right now. Please contact our support team directly, and mention this conversation.";
+    }
+
+    if (session) session.dialog = undefined;
+    const text = lead ? ` ${answer}` : answer;
+    handlers.onDelta?.(text);
+    return { answer: lead + text, intent: 'Escalate', sources: [], ticketReference };
+}
+
+// --- Intent: Escalate (Human Handoff) ---
+// Explicit requests to talk to a person. Repeated "no answer" outcomes and strongly negative
+// messages are escalated by the router (see escalation.ts).
+export const escalateIntent: IntentDefinition = {
+    name: 'Escalate',
+    description: 'The user asks to talk to a human, an agent or customer service, or wants to file a complaint.',
+    examples: [
+        { query: 'I want to talk to a human' },
+        { query: 'Can I speak to a real person please?' },
+        { query: 'Connect me with customer service' },
+        { query: 'Transfer me to an agent' },
+        { query: 'I want to file a complaint about my order ABC12345', slots: { orderId: 'ABC12345' } },
+        { query: 'Get me a representative' },
+    ],
+    slots: [],
+    hasSideEffects: true,
+
+    handle: context => escalate(context, 'explicit_request'),
+};
@@ -0,0 +1,28 @@
+import { createIntentRegistry } from './registry.js';
+import { escalateIntent } from './escalateIntent.js';
+import { knowledgeBaseIntent } from './knowledgeBaseIntent.js';
+import { cancelOrderIntent, changeAddressIntent, startReturnIntent } from './orderActionIntents.js';
+import { orderStatusIntent } from './orderStatusIntent.js';
+import { productInfoIntent } from './productInfoIntent.js';
+
+export type { BotResponse, IntentContext, IntentDecider, IntentDefinition, IntentExample, IntentName, SlotDefinition, SlotType, SlotValue, StreamHandlers } from './types.js';
+export type { IntentRegistry } from './registry.js';
+export type { IntentClassification } from './classifier.js';
+export type { LocalClassification, LocalIntentClassifier } from './localClassifier.js';
+export { createIntentRegistry } from './registry.js';
+export { buildClassifierPrompt, buildResponseSchema, classifyIntent, useIntentModel } from './classifier.js';
+export { createLocalIntentClassifier } from './localClassifier.js';
+export { directResponse } from './responses.js';
+export { escalate } from './escalateIntent.js';
+
+// --- INTENT REGISTRY ---
+// The intents the assistant understands. To add one, create an IntentDefinition in its own
+// module and register it here; the classifier and router pick it up automatically.
+export const intentRegistry = createIntentRegistry(knowledgeBaseIntent.name);
+intentRegistry.register(orderStatusIntent);
+intentRegistry.register(cancelOrderIntent);
+intentRegistry.register(changeAddressIntent);
+intentRegistry.register(startReturnIntent);
+intentRegistry.register(productInfoIntent);
+intentRegistry.register(escalateIntent);
+intentRegistry.register(knowledgeBaseIntent);
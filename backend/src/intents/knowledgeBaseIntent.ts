@@ -0,0 +1,40 @@
+import { queryKnowledgeBase } from '../knowledgeBase.js';
+import type { IntentDefinition } from './types.js';
+
+// --- Intent: RAG (Default) ---
+// Answers FAQs and policy questions from the knowledge base. Also the fallback intent.
+export const knowledgeBaseIntent: IntentDefinition = {
+    name: 'RAG',
+    description: 'All other questions: FAQs, policies (returns, shipping, warranty, payments, accounts, price matching, gift cards) and general chat.',
+    examples: [
+        { query: 'What is your return policy?' },
+        { query: 'How long does shipping take to Canada?' },
+        { query: 'Can I pay with PayPal?' },
+        { query: 'How do I return an item?' },
+        { query: 'Do you offer a warranty on electronics?' },
+        { query: 'How can I change the email on my account?' },
+        { query: 'Do you ship internationally?' },
+        { query: 'Is there a restocking fee for refunds?' },
+        { query: 'Can I return a final sale item?' },
+        { query: 'How do I update the saved address in my account?' },
+        { query: 'Which shipping carriers do you use?' },
+        { query: 'Do you deliver to a PO box or APO address?' },
+        { query: 'What does the warranty claim process look like?' },
+        { query: 'Can I use a gift card at checkout?' },
+        { query: 'Do you price match?' },
+    ],
+    slots: [],
+
+    async handle({ standaloneQuery, history, handlers }) {
+        handlers.onIntent?.('RAG');
+        const { answer, outcome, sources, degradation, guardrail } = await queryKnowledgeBase(standaloneQuery, history, handlers);
+        return {
+            answer,
+            intent: 'RAG',
+            outcome,
+            sources,
+            degradation,
+            guardrail
+        };
+    },
+};
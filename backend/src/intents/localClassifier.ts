@@ -0,0 +1,97 @@
+import { tokenize } from '../embedders/localEmbedder.js';
+import type { IntentRegistry } from './registry.js';
+import type { IntentName, SlotValue } from './types.js';
+
+// Confidence given to an intent when one of its decisive slots was found (e.g. an explicit order ID)
+const DECISIVE_SLOT_CONFIDENCE = 0.95;
+
+// Laplace smoothing for unseen tokens
+const SMOOTHING = 1;
+
+// The local classifier's verdict for one query
+export interface LocalClassification {
+    intent: IntentName;
+    slots: Record<string, SlotValue | undefined>;
+    confidence: number; // Posterior probability of the chosen intent, in [0, 1]
+}
+
+export interface LocalIntentClassifier {
+    classify(query: string): LocalClassification;
+}
+
+/**
+ * Creates an offline intent classifier from the registry:
+ * 1. Each intent's extractSlots() runs (regexes, catalog lookups). If a decisive slot is found
+ *    (and the intent's decisiveWhen() holds), that intent wins with high confidence (e.g. "where is
+ *    order ABC12345" is always Order_Status),
+ *    unless other intents extracted the same slot: then the naive-Bayes model below picks
+ *    between them (e.g. "cancel ABC12345" goes to Cancel_Order).
+ * 2. Otherwise a multinomial naive-Bayes model trained on every intent's examples scores the
+ *    query's tokens, with a uniform prior over intents.
+ * The model is trained once, when the classifier is created.
+ * @param registry The intents to choose from; their examples are the training data.
+ */
+export function createLocalIntentClassifier(registry: IntentRegistry): LocalIntentClassifier {
+    const intents = registry.list();
+    const vocabulary = new Set<string>();
+    const model = intents.map(intent => {
+        const counts = new Map<string, number>();
+        let total = 0;
+        for (const example of intent.examples) {
+            for (const token of tokenize(example.query)) {
+                counts.set(token, (counts.get(token) || 0) + 1);
+                vocabulary.add(token);
+                total++;
+            }
+        }
+        return { intent, counts, total };
+    });
+
+    return {
+        classify(query: string): LocalClassification {
+            const extracted = new Map(intents.map(intent => [intent.name, intent.extractSlots?.(query) ?? {}]));
+            const withSlots = (intent: IntentName, confidence: number): LocalClassification =>
+                ({ intent, slots: extracted.get(intent) ?? {}, confidence });
+
+            const tokens = tokenize(query).filter(token => vocabulary.has(token));
+
+            // Naive Bayes over the given tokens, restricted to the given candidates
+            const bestOf = (candidates: typeof model, tokens: string[]) => {
+                const logScores = candidates.map(({ counts, total }) => tokens.reduce(
+                    (sum, token) => sum + Math.log(((counts.get(token) || 0) + SMOOTHING) / (total + SMOOTHING * vocabulary.size)),
+                    0,
+                ));
+                const max = Math.max(...logScores);
+                const weights = logScores.map(score => Math.exp(score - max));
+                const normalizer = weights.reduce((sum, weight) => sum + weight, 0);
+
+                let best = 0;
+                for (let i = 1; i < weights.length; i++) {
+                    if (weights[i] > weights[best]) best = i;
+                }
+                return { intent: candidates[best].intent, confidence: weights[best] / normalizer };
+            };
+
+            // 1. Decisive slots
+            const decisive = intents.find(intent =>
+                intent.decisiveSlots?.some(slot => extracted.get(intent.name)?.[slot] !== undefined)
+                && (intent.decisiveWhen?.(query) ?? true));
+            if (decisive) {
+                const slot = decisive.decisiveSlots!.find(name => extracted.get(decisive.name)?.[name] !== undefined)!;
+                const sharing = model.filter(({ intent }) => extracted.get(intent.name)?.[slot] !== undefined);
+                // The slot value itself (e.g. the order ID) says nothing about which of them is meant
+                const valueTokens = new Set(tokenize(String(extracted.get(decisive.name)![slot])));
+                const remaining = tokens.filter(token => !valueTokens.has(token));
+                const winner = sharing.length > 1 && remaining.length > 0 ? bestOf(sharing, remaining).intent : decisive;
+                return withSlots(winner.name, DECISIVE_SLOT_CONFIDENCE);
+            }
+
+            // 2. Naive Bayes over all intents; a query with no known tokens carries no evidence
+            if (tokens.length === 0) {
+                return withSlots(registry.fallback().name, 1 / intents.length);
+            }
+            const { intent, confidence } = bestOf(model, tokens);
+            return withSlots(intent.name, confidence);
+        },
+    };
+}
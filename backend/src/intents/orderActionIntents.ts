@@ -0,0 +1,201 @@
+import { cancelOrder, changeShippingAddress, describeItems, findOrder, startReturn } from '../orderStatus.js';
+import { checkEligibility, type OrderAction } from '../orderActions.js';
+import { startAddressDialog, startConfirmationDialog } from '../dialog.js';
+import type { Order } from '../orders/index.js';
+import { continueOrderDialog, extractOrderId, requireVerifiedOrderId } from './orderFlow.js';
+import { directResponse } from './responses.js';
+import type { BotResponse, IntentContext, IntentDefinition, IntentExample, SlotDefinition, SlotValue } from './types.js';
+
+// What differs between the order actions; the flow around them is shared
+interface OrderActionConfig {
+    name: string;
+    action: OrderAction;
+    description: string;
+    examples: IntentExample[];
+    slots: SlotDefinition[];
+    extractSlots?(query: string): Record<string, SlotValue | undefined>;
+    /** Asks for anything else the action needs, or returns null when the slots are complete. */
+    collectSlots?(context: IntentContext, order: Order): BotResponse | null;
+    /** The yes/no question read back before acting. */
+    confirmationPrompt(order: Order, slots: IntentContext['slots']): string;
+    /** What to say if the user declines. */
+    declinedAnswer(order: Order): string;
+    /** Carries out the confirmed action and describes the result. */
+    perform(order: Order, slots: IntentContext['slots']): Promise<string>;
+}
+
+const ORDER_ID_SLOT: SlotDefinition = {
+    name: 'orderId',
+    type: 'string',
+    description: 'The 5-8 character order ID, exactly as the user said it (it may be spelled out). Omit if no order ID is mentioned.',
+};
+
+/**
+ * Spells a reference's characters in groups of three so text-to-speech reads them clearly,
+ * e.g. "LBL-7F3K9Q2M" -> "7 F 3, K 9 Q, 2 M".
+ */
+function spellCharacters(reference: string): string {
+    const characters = reference.replace(/^[A-Z]+-/, '').split('');
+    const groups: string[] = [];
+    for (let i = 0; i < characters.length; i += 3) {
+        groups.push(characters.slice(i, i + 3).join(' '));
+    }
+    return groups.join(', ');
+}
+
+/**
+ * Builds an intent that changes an order. Each turn re-runs the same steps, so the dialogs can
+ * fill in whatever is missing and hand back to the handler:
+ * 1. A verified order ID (see orderFlow.ts).
+ * 2. Eligibility, checked against the order's current state (see orderActions.ts).
+ * 3. Any further details the action needs (e.g. the new address).
+ * 4. An explicit spoken "yes"; the action is never taken without it.
+ * @param config The action's classifier metadata, prompts and effect.
+ */
+function createOrderActionIntent(config: OrderActionConfig): IntentDefinition {
+    const intent: IntentDefinition = {
+        name: config.name,
+        description: config.description,
+        examples: config.examples,
+        slots: [ORDER_ID_SLOT, ...config.slots],
+        extractSlots: query => ({ ...extractOrderId(query), ...config.extractSlots?.(query) }),
+        hasSideEffects: true,
+
+        async handle(context) {
+            const { session, handlers, slots } = context;
+            const required = requireVerifiedOrderId(context, config.name);
+            if ('response' in required) return required.response;
+            const { orderId } = required;
+
+            const order = await findOrder(orderId);
+            if (!order) {
+                console.log(`[Orders] Order ${orderId} not found for ${config.action}.`);
+                return directResponse(handlers, config.name, `I couldn't find an order with the number **${orderId}**. Please check the number in your order confirmation email and try again.`);
+            }
+
+            const eligibility = checkEligibility(order, config.action);
+            if (!eligibility.eligible) {
+                console.log(`[Orders] ${config.action} not allowed for ${orderId}: ${eligibility.reason}`);
+                return directResponse(handlers, config.name, eligibility.reason);
+            }
+
+            const missing = config.collectSlots?.(context, order);
+            if (missing) return missing;
+
+            // Only the confirmation dialog sets 'confirmed'; the classifier never extracts it
+            if (slots.confirmed !== true) {
+                if (!session) {
+                    return directResponse(handlers, config.name, "I need to confirm this with you before making any changes, which requires an active conversation. Please try again.");
+                }
+                const { confirmed: _confirmed, ...collected } = slots;
+                session.dialog = startConfirmationDialog(config.name, { ...collected, orderId }, config.declinedAnswer(order));
+                return directResponse(handlers, config.name, config.confirmationPrompt(order, slots));
+            }
+
+            try {
+                const answer = await config.perform(order, slots);
+                console.log(`[Orders] ✅ ${config.action} completed for ${orderId}.`);
+                return directResponse(handlers, config.name, answer);
+            } catch (error) {
+                console.error(`❌ [Orders] ${config.action} failed for ${orderId}:`, error);
+                return directResponse(handlers, config.name, `I'm sorry, I couldn't update order **${orderId}** right now. No changes were made. Please try again later, or ask to talk to a person.`);
+            }
+        },
+
+        continueDialog: context => continueOrderDialog(context, intent.handle),
+    };
+    return intent;
+}
+
+// --- Intent: Cancel Order ---
+export const cancelOrderIntent = createOrderActionIntent({
+    name: 'Cancel_Order',
+    action: 'cancel',
+    description: 'Requests to cancel an order that was placed.',
+    examples: [
+        { query: 'Cancel my order ORD10001', slots: { orderId: 'ORD10001' } },
+        { query: 'I want to cancel my order' },
+        { query: 'Please cancel order A B C one two three four five', slots: { orderId: 'A B C one two three four five' } },
+        { query: 'I changed my mind, can you cancel the order?' },
+        { query: 'Stop my order before it ships' },
+    ],
+    slots: [],
+
+    confirmationPrompt: order =>
+        `Just to confirm: you want to cancel order **${order.id}** (${describeItems(order)})? This can't be undone. Please say yes to cancel it, or no to keep it.`,
+    declinedAnswer: order => `OK, I haven't cancelled anything. Order ${order.id} will go ahead as planned.`,
+
+    async perform(order) {
+        await cancelOrder(order.id);
+        return `Done. Order **${order.id}** has been cancelled. Any payment will be refunded to the original payment method.`;
+    },
+});
+
+// --- Intent: Change Shipping Address ---
+export const changeAddressIntent = createOrderActionIntent({
+    name: 'Change_Address',
+    action: 'change_address',
+    description: 'Requests to change or correct the shipping (delivery) address of an order.',
+    examples: [
+        { query: 'Change the shipping address for ORD10001 to 5 Elm Street, Springfield 62704', slots: { orderId: 'ORD10001', newAddress: '5 Elm Street, Springfield 62704' } },
+        { query: 'I need to update my delivery address' },
+        { query: 'Can you ship my order to a different address?' },
+        { query: 'I moved, please send order ORD10001 to my new address', slots: { orderId: 'ORD10001' } },
+        { query: 'Wrong address on my order' },
+    ],
+    slots: [
+        { name: 'newAddress', type: 'string', description: 'The complete new shipping address (street, city and postcode), if the user gave one. Omit otherwise.' },
+    ],
+
+    extractSlots(query) {
+        // "... to 5 Elm Street, Springfield 62704": an address must contain a number
+        const match = query.match(/\b(?:to|address is)\s+([^?]*\d[^?]*?)[.\s]*$/i);
+        return match ? { newAddress: match[1] } : {};
+    },
+
+    collectSlots({ session, handlers, slots }, order) {
+        if (typeof slots.newAddress === 'string' && slots.newAddress.trim()) return null;
+        if (session) session.dialog = startAddressDialog('Change_Address', { ...slots, orderId: order.id });
+        return directResponse(handlers, 'Change_Address', `Order **${order.id}** is currently going to ${order.shippingAddress}. What's the new shipping address? Please include the street, city and postcode.`);
+    },
+
+    confirmationPrompt: (order, slots) =>
+        `Just to confirm: you want order **${order.id}** shipped to ${slots.newAddress} instead of ${order.shippingAddress}? Please say yes to change it, or no to keep the current address.`,
+    declinedAnswer: order => `OK, I haven't changed anything. Order ${order.id} will still ship to ${order.shippingAddress}.`,
+
+    async perform(order, slots) {
+        const updated = await changeShippingAddress(order.id, String(slots.newAddress).trim());
+        return `Done. Order **${order.id}** will now ship to ${updated.shippingAddress}.`;
+    },
+});
+
+// --- Intent: Start Return ---
+export const startReturnIntent = createOrderActionIntent({
+    name: 'Start_Return',
+    action: 'return',
+    description: 'Requests to return an order, start a return or get a return label, including "how do I start a return". Not for questions about what the returns policy allows.',
+    examples: [
+        { query: 'How do I start a return?' },
+        { query: 'I want to return order XYZ789', slots: { orderId: 'XYZ789' } },
+        { query: 'Start a return for my order' },
+        { query: 'The headphones are faulty, I want to send them back', slots: { reason: 'The headphones are faulty' } },
+        { query: 'Can I get a return label for my order?' },
+        { query: 'Please set up a return for order Z X nine oh two one oh', slots: { orderId: 'Z X nine oh two one oh' } },
+    ],
+    slots: [
+        { name: 'reason', type: 'string', description: 'Why the user is returning the items, if they said. Omit otherwise.' },
+    ],
+
+    confirmationPrompt: order =>
+        `Just to confirm: you want to return order **${order.id}** (${describeItems(order)})? I'll issue a prepaid return label. Please say yes to start the return, or no to cancel.`,
+    declinedAnswer: order => `OK, I haven't started a return for order ${order.id}.`,
+
+    async perform(order, slots) {
+        const items = order.items.map(item => item.sku);
+        const reason = typeof slots.reason === 'string' ? slots.reason : undefined;
+        const rma = await startReturn(order.id, items, reason);
+        return `Your return for order **${order.id}** is approved. Your return number is **${rma.rmaNumber}**, that's ${spellCharacters(rma.rmaNumber)}, `
+            + `and your prepaid shipping label reference is **${rma.labelReference}**, that's ${spellCharacters(rma.labelReference)}. `
+            + `Please make sure the items are unused and in their original packaging, and attach the label to the parcel.`;
+    },
+});
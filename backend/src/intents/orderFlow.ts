@@ -0,0 +1,100 @@
+import { ORDER_ID_PROMPT, continueAddressDialog, continueConfirmationDialog, continueDialog, normalizeSpokenOrderId, startOrderIdDialog, type DialogStep } from '../dialog.js';
+import { continueVerification, isLockedOut, isVerifiedFor, lockedOutAnswer, startVerificationDialog, verificationPrompt } from '../verification.js';
+import { isCatalogToken } from '../productCatalog.js';
+import { directResponse } from './responses.js';
+import type { BotResponse, IntentContext, IntentName, SlotValue } from './types.js';
+
+// --- SHARED ORDER FLOW ---
+// Every order intent needs the same steps before it can act: an order ID (asked for if missing)
+// and, when ORDER_VERIFICATION is on, proof that the customer owns the order. The dialogs that
+// collect them remember the intent and its slots, and re-run the intent's handler once complete.
+
+export type OrderIdRequirement =
+    | { orderId: string }          // Known and (if required) verified
+    | { response: BotResponse };   // A dialog was started; send this prompt instead
+
+/**
+ * Extracts the order ID slot without a model. Catalog models and specs ("NC700", "HDR10", "144Hz")
+ * have the same shape as order IDs and are skipped.
+ */
+export function extractOrderId(query: string): Record<string, SlotValue | undefined> {
+    const orderId = normalizeSpokenOrderId(query, isCatalogToken);
+    return orderId ? { orderId } : {};
+}
+
+/**
+ * Whether the query refers to an order explicitly: it says "order", or marks the ID with "#".
+ * Only then does an extracted ID decide the intent on its own.
+ */
+export function hasOrderContext(query: string): boolean {
+    return /\border\b/i.test(query) || /#\s*[A-Z0-9]/i.test(query);
+}
+
+/**
+ * Makes sure the turn has a verified order ID, starting the order-ID or verification dialog if not.
+ * @param context The current turn; its orderId slot may be in spoken form.
+ * @param intent The intent to re-run once the dialog completes.
+ */
+export function requireVerifiedOrderId(context: IntentContext, intent: IntentName): OrderIdRequirement {
+    const { session, handlers, slots } = context;
+    // The extracted ID may be in spoken form ("A B C one two three..."), so normalize it.
+    const orderId = typeof slots.orderId === 'string' ? normalizeSpokenOrderId(slots.orderId) : null;
+
+    if (!orderId) {
+        // --- Slot filling: ask for the missing order ID and remember that we are waiting for it ---
+        if (session) session.dialog = startOrderIdDialog(intent, slots);
+        return { response: directResponse(handlers, intent, ORDER_ID_PROMPT) };
+    }
+
+    if (!isVerifiedFor(session, orderId)) {
+        if (!session) {
+            return { response: directResponse(handlers, intent, "I need to verify your identity before sharing order details, which requires an active conversation. Please try again.") };
+        }
+        if (isLockedOut(session)) {
+            return { response: directResponse(handlers, intent, lockedOutAnswer(session)) };
+        }
+        session.dialog = startVerificationDialog(orderId, intent, { ...slots, orderId });
+        return { response: directResponse(handlers, intent, verificationPrompt(orderId)) };
+    }
+
+    return { orderId };
+}
+
+/**
+ * Continues whichever order dialog the session is in. When the dialog completes, the intent's
+ * handler runs again with the collected slots merged in.
+ * @param context The current turn.
+ * @param handle The owning intent's handler.
+ * @returns The response, or null if the user changed the subject and the query should be routed normally.
+ */
+export async function continueOrderDialog(
+    context: Omit<IntentContext, 'slots' | 'standaloneQuery'>,
+    handle: (context: IntentContext) => Promise<BotResponse>,
+): Promise<BotResponse | null> {
+    const { session, query, handlers } = context;
+    const dialog = session?.dialog;
+    if (!session || !dialog) return null;
+
+    let step: DialogStep;
+    switch (dialog.name) {
+        case 'awaiting_order_id': step = continueDialog(dialog, query); break;
+        case 'awaiting_verification': step = await continueVerification(session, dialog, query); break;
+        case 'awaiting_address': step = continueAddressDialog(dialog, query); break;
+        case 'awaiting_confirmation': step = continueConfirmationDialog(dialog, query); break;
+    }
+    console.log(`[Dialog] ${dialog.intent}/${dialog.name} -> ${step.kind}`);
+
+    if (step.kind === 'slot_filled') {
+        session.dialog = undefined;
+        return handle({ ...context, standaloneQuery: query, slots: { ...dialog.slots, ...step.slots } });
+    }
+    if (step.kind === 'reprompt') {
+        return directResponse(handlers, dialog.intent, step.answer);
+    }
+    session.dialog = undefined;
+    if (step.kind === 'abandoned') {
+        return directResponse(handlers, dialog.intent, step.answer);
+    }
+    // 'topic_changed': route the new question normally
+    return null;
+}
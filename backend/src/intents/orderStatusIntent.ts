@@ -0,0 +1,38 @@
+import { getOrderStatus } from '../orderStatus.js';
+import { continueOrderDialog, extractOrderId, hasOrderContext, requireVerifiedOrderId } from './orderFlow.js';
+import { directResponse } from './responses.js';
+import type { IntentDefinition } from './types.js';
+
+// --- Intent: Order Status (Order Service) ---
+// Looks up an order, asking for a missing order number and verifying the customer across turns.
+export const orderStatusIntent: IntentDefinition = {
+    name: 'Order_Status',
+    description: 'Questions about an order status or tracking, or any message that mentions a specific order ID (letters and numbers, like "ABC12345").',
+    examples: [
+        { query: 'Where is my order ABC12345?', slots: { orderId: 'ABC12345' } },
+        { query: 'Has my package shipped yet?' },
+        { query: 'Where is my order?' },
+        { query: 'Track order X Y Z seven eight nine', slots: { orderId: 'X Y Z seven eight nine' } },
+        { query: 'What is the status of my order?' },
+        { query: 'When will my delivery arrive?' },
+        { query: 'Can you give me the tracking number for my parcel?' },
+        { query: 'My order has not arrived yet' },
+        { query: 'Check order QWE45678 for me', slots: { orderId: 'QWE45678' } },
+    ],
+    slots: [
+        { name: 'orderId', type: 'string', description: 'The 5-8 character order ID, exactly as the user said it (it may be spelled out). Omit if no order ID is mentioned.' },
+    ],
+
+    extractSlots: extractOrderId,
+    // An ID-shaped token alone ("Does it support HDR10?") is not enough; the query must mention an order
+    decisiveSlots: ['orderId'],
+    decisiveWhen: hasOrderContext,
+
+    async handle(context) {
+        const required = requireVerifiedOrderId(context, 'Order_Status');
+        if ('response' in required) return required.response;
+        return directResponse(context.handlers, 'Order_Status', await getOrderStatus(required.orderId));
+    },
+
+    continueDialog: context => continueOrderDialog(context, orderStatusIntent.handle),
+};
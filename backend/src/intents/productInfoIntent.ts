@@ -0,0 +1,60 @@
+import { queryKnowledgeBase } from '../knowledgeBase.js';
+import { describeProduct, lookupProduct } from '../productInfo.js';
+import { CONFIDENT_MATCH, findProducts } from '../productCatalog.js';
+import { knowledgeBaseIntent } from './knowledgeBaseIntent.js';
+import { directResponse } from './responses.js';
+import type { IntentDefinition } from './types.js';
+
+// --- Intent: Product Info (Catalog + RAG) ---
+// Identifies the product in the catalog and answers from its indexed product document.
+export const productInfoIntent: IntentDefinition = {
+    name: 'Product_Info',
+    description: 'Questions specifically about the features, specifications, availability, variants or pricing of a product.',
+    examples: [
+        { query: 'How much is the Pro Suite?', slots: { productName: 'Pro Suite' } },
+        { query: 'Does Monitor X support HDR?', slots: { productName: 'Monitor X' } },
+        { query: 'Are the wireless earbuds in stock?', slots: { productName: 'wireless earbuds' } },
+        { query: 'What colors does the smartwatch come in?', slots: { productName: 'smartwatch' } },
+        { query: 'What is the battery life of the headphones?', slots: { productName: 'headphones' } },
+        { query: 'What are the specs of Monitor X2?', slots: { productName: 'Monitor X2' } },
+        { query: 'Is the Basic Plan free?', slots: { productName: 'Basic Plan' } },
+        { query: 'Which features does the premium plan include?', slots: { productName: 'premium plan' } },
+    ],
+    slots: [
+        { name: 'productName', type: 'string', description: 'The main product name as the user said it (e.g. "Pro Suite", "Monitor X"). Omit if no specific product is mentioned.' },
+    ],
+
+    extractSlots(query) {
+        const [best] = findProducts(query);
+        return best && best.confidence >= CONFIDENT_MATCH ? { productName: best.matchedTerm } : {};
+    },
+
+    async handle(context) {
+        const productName = context.slots.productName;
+        // Without a specific product this is a general question for the knowledge base
+        if (typeof productName !== 'string' || !productName.trim()) {
+            return knowledgeBaseIntent.handle(context);
+        }
+
+        const lookup = lookupProduct(productName);
+        if (lookup.kind === 'clarify') {
+            return directResponse(context.handlers, 'Product_Info', lookup.answer);
+        }
+
+        // Ground the answer in this product's document only; fall back to the catalog template if it is not indexed
+        context.handlers.onIntent?.('Product_Info');
+        const { answer, sources, degradation, guardrail } = await queryKnowledgeBase(context.standaloneQuery, context.history, context.handlers, {
+            filter: { doc_type: 'product', sku: lookup.product.sku },
+            noAnswerMessage: describeProduct(lookup.product, context.standaloneQuery),
+        });
+        return {
+            answer,
+            intent: 'Product_Info',
+            // The catalog template answers the question, so it must not count towards the no-answer escalation
+            outcome: 'answered',
+            sources,
+            degradation,
+            guardrail
+        };
+    },
+};
@@ -0,0 +1,44 @@
+import type { IntentDefinition, IntentName } from './types.js';
+
+export interface IntentRegistry {
+    /** Adds an intent. Names must be unique. */
+    register(intent: IntentDefinition): void;
+
+    /** Looks up an intent by name. */
+    get(name: IntentName): IntentDefinition | undefined;
+
+    /** All registered intents, in registration order. */
+    list(): IntentDefinition[];
+
+    /** The intent used when the classifier fails or returns an unknown name. */
+    fallback(): IntentDefinition;
+}
+
+/**
+ * Creates an empty intent registry.
+ * @param fallbackName The intent to route to when classification fails; it must be registered before use.
+ */
+export function createIntentRegistry(fallbackName: IntentName): IntentRegistry {
+    const intents = new Map<IntentName, IntentDefinition>();
+
+    return {
+        register(intent: IntentDefinition) {
+            if (intents.has(intent.name)) {
+                throw new Error(`Intent '${intent.name}' is already registered.`);
+            }
+            intents.set(intent.name, intent);
+        },
+
+        get: (name: IntentName) => intents.get(name),
+
+        list: () => [...intents.values()],
+
+        fallback() {
+            const intent = intents.get(fallbackName);
+            if (!intent) {
+                throw new Error(`Fallback intent '${fallbackName}' is not registered.`);
+            }
+            return intent;
+        },
+    };
+}
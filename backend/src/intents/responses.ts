@@ -0,0 +1,14 @@
+import type { BotResponse, IntentName, StreamHandlers } from './types.js';
+
+/**
+ * Builds a response that is not generated by a model (prompts, confirmations, lookups),
+ * delivering it to streaming clients as a single delta.
+ * @param handlers The streaming callbacks.
+ * @param intent The intent reported for the answer.
+ * @param answer The complete answer text.
+ */
+export function directResponse(handlers: StreamHandlers, intent: IntentName, answer: string): BotResponse {
+    handlers.onIntent?.(intent);
+    handlers.onDelta?.(answer);
+    return { answer, intent, sources: [] };
+}
@@ -0,0 +1,96 @@
+// --- SHARED INTENT TYPES ---
+// Every intent the assistant understands is declared once as an IntentDefinition and registered
+// in the intent registry. The classifier prompt and response schema are generated from the
+// registry, so adding an intent never requires touching the router.
+import type { Source } from '../knowledgeBase.js';
+import type { Degradation } from '../resilience.js';
+import type { GuardrailTrigger } from '../guardrails.js';
+import type { ConversationTurn, Session } from '../sessionStore.js';
+
+// The name of a registered intent (e.g. 'Order_Status'), or 'General' for the router's error fallback
+export type IntentName = string;
+
+// Which component chose the intent: the local classifier, the LLM, the local classifier because the
+// LLM failed, an active dialog that continued without classification, or the automatic escalation policy
+export type IntentDecider = 'local' | 'llm' | 'local_fallback' | 'dialog' | 'escalation_policy';
+
+// Define the structure for the API response
+export type BotResponse = {
+    answer: string;
+    intent: IntentName;
+    classifier?: IntentDecider; // Set by the router
+    outcome?: 'answered' | 'no_answer'; // Set for RAG answers; 'no_answer' when nothing relevant was retrieved
+    sources: Source[]; // Knowledge-base records the answer was grounded in (empty for non-RAG answers)
+    sessionId?: string; // The conversation this answer belongs to; send it back with the next query
+    ticketReference?: string; // Set when the conversation was escalated to a support ticket
+    degradation?: Degradation; // Set when an external service failed and the answer says so (or was produced without it)
+    guardrail?: GuardrailTrigger; // Set when the query or the generated answer was blocked and the answer is a refusal
+};
+
+// Optional callbacks for streaming a response to the client as it is produced
+export interface StreamHandlers {
+    onIntent?: (intent: IntentName) => void; // Called once the query has been routed
+    onDelta?: (text: string) => void; // Called with each chunk of answer text
+    onRetract?: () => void; // Called when the text sent so far was withdrawn (e.g. a blocked answer); the deltas that follow replace it
+}
+
+export type SlotType = 'string' | 'number' | 'boolean';
+export type SlotValue = string | number | boolean;
+
+// A piece of information the classifier extracts from the query for an intent
+export interface SlotDefinition {
+    name: string; // e.g. 'orderId'
+    type: SlotType;
+    description: string; // Shown to the classifier; say what to extract and in which form
+}
+
+// A sample query with the intent (and slot values) it should be classified as
+export interface IntentExample {
+    query: string;
+    slots?: Record<string, SlotValue>;
+}
+
+// Everything a handler needs to answer a classified query
+export interface IntentContext {
+    query: string; // The user's words, as received
+    standaloneQuery: string; // The query rewritten to stand alone (same as query without history)
+    slots: Record<string, SlotValue | undefined>; // Extracted slot values; missing slots are undefined
+    session?: Session; // The conversation, which handlers may update (e.g. to start a dialog)
+    history: ConversationTurn[];
+    handlers: StreamHandlers;
+}
+
+export interface IntentDefinition {
+    /** Unique name returned by the classifier and reported to clients (e.g. 'Order_Status'). */
+    name: IntentName;
+
+    /** When to choose this intent, written for the classifier. */
+    description: string;
+
+    /** Sample queries, used as few-shot examples for the LLM and as training data for the local classifier. */
+    examples: IntentExample[];
+
+    /** Information to extract from the query for the handler. */
+    slots: SlotDefinition[];
+
+    /** Extracts slot values without a model (e.g. with a regex), for the local classifier. */
+    extractSlots?(query: string): Record<string, SlotValue | undefined>;
+
+    /** Slots whose presence alone identifies this intent (e.g. an explicit order ID). */
+    decisiveSlots?: string[];
+
+    /** Optional extra condition on the query for the decisive slots to count (e.g. it mentions an order). */
+    decisiveWhen?(query: string): boolean;
+
+    /** Whether handling the intent changes something (files a ticket, starts an order change), so weak evidence must not select it. */
+    hasSideEffects?: boolean;
+
+    /** Answers the query. Handlers stream their answer through context.handlers. */
+    handle(context: IntentContext): Promise<BotResponse>;
+
+    /**
+     * Continues a dialog this intent started (see dialog.ts) with the user's next utterance.
+     * @returns The response, or null if the user changed the subject and the query should be routed normally.
+     */
+    continueDialog?(context: Omit<IntentContext, 'slots' | 'standaloneQuery'>): Promise<BotResponse | null>;
+}
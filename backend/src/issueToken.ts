@@ -0,0 +1,19 @@
+import 'dotenv/config';
+import { createClientToken } from './clientAuth.js';
+
+// --- CONFIGURATION ---
+// Prints a signed client token for /api, signed with CLIENT_TOKEN_SECRET.
+// Usage: npm run token -- <client id> [ttl in minutes, default 60]
+const [clientId, ttlMinutes = '60'] = process.argv.slice(2);
+
+if (!clientId) {
+    console.error("Usage: npm run token -- <client id> [ttl in minutes]");
+    process.exit(1);
+}
+
+try {
+    console.log(createClientToken(clientId, Number(ttlMinutes) * 60));
+} catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+}
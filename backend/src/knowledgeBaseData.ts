@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import type { LocalStoreSeed, RecordMetadata, VectorRecord } from './vectorStores/index.js';
+import { indexMetadataFor, type Embedder } from './embedders/index.js';
+import { faqRecordDocument, fingerprintFaqData, loadFaqRecords } from './faqData.js';
+import { fingerprintProductData, productRecordDocument } from './productData.js';
+import { fingerprintDocumentData, loadDocumentChunkRecords } from './documentData.js';
+import { loadProducts } from './productCatalog.js';
+
+// --- KNOWLEDGE BASE SOURCES ---
+// The vector index holds three document types side by side, told apart by metadata.doc_type:
+// FAQ entries (data/faq.json), catalog products (data/products.json) and chunks of the policy
+// and help documents under data/docs (Markdown, HTML, plain text, CSV).
+
+// A record of the knowledge base before embedding
+export interface KnowledgeBaseDocument {
+    id: string; // The vector id
+    text: string; // What gets embedded
+    metadata: RecordMetadata;
+}
+
+/**
+ * Loads every knowledge-base document: FAQ entries first, then products, then document chunks.
+ */
+export function loadKnowledgeBaseDocuments(): KnowledgeBaseDocument[] {
+    return [
+        ...loadFaqRecords().map(faqRecordDocument),
+        ...loadProducts().map(productRecordDocument),
+        ...loadDocumentChunkRecords(),
+    ];
+}
+
+/**
+ * Hashes everything that ends up in a document's vector record, so any change to it is detected.
+ */
+export function hashDocument(document: KnowledgeBaseDocument): string {
+    return createHash('sha256').update(JSON.stringify([document.text, document.metadata])).digest('hex');
+}
+
+/**
+ * Embeds a document into a vector record.
+ * @param document The document.
+ * @param embedder The embedder (must match the one used for queries).
+ */
+export async function embedDocument(document: KnowledgeBaseDocument, embedder: Embedder): Promise<VectorRecord> {
+    return { id: document.id, values: await embedder.embed(document.text), metadata: document.metadata };
+}
+
+/**
+ * Embeds every knowledge-base document: FAQ entries first, then products, then document chunks.
+ * @param embedder The embedder (must match the one used for queries).
+ * @param onRecord Optional progress callback, called before each record is embedded.
+ */
+export async function embedKnowledgeBaseRecords(embedder: Embedder, onRecord?: (id: string) => void): Promise<VectorRecord[]> {
+    const vectors: VectorRecord[] = [];
+    for (const document of loadKnowledgeBaseDocuments()) {
+        onRecord?.(document.id);
+        vectors.push(await embedDocument(document, embedder));
+    }
+    return vectors;
+}
+
+/**
+ * Describes faq.json, products.json and data/docs as seed data for the local vector store.
+ * The fingerprint covers the embedder too, so switching EMBEDDER rebuilds the local index.
+ * @param embedder The embedder (must match the one used for queries).
+ */
+export function createKnowledgeBaseSeed(embedder: Embedder): LocalStoreSeed {
+    return {
+        fingerprint: `${embedder.model}:${fingerprintFaqData()}:${fingerprintProductData()}:${fingerprintDocumentData()}`,
+        metadata: indexMetadataFor(embedder),
+        records: () => embedKnowledgeBaseRecords(embedder),
+    };
+}
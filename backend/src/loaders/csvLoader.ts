@@ -0,0 +1,87 @@
+import type { DocumentLoader, DocumentSection } from './types.js';
+import { slugify, titleFromFileName } from './sections.js';
+
+/**
+ * Parses CSV as written by spreadsheet and help-desk exports (RFC 4180):
+ * comma-separated, fields optionally quoted, quotes escaped by doubling, newlines allowed inside quotes.
+ */
+export function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Loads a CSV export. The first row is the header.
+ * - Exports with `question` and `answer` columns become one section per row, titled by the question
+ *   (prefixed by a `section` or `category` column when there is one).
+ * - Any other table becomes one section whose paragraphs are the rows, written as "Column: value; ..."
+ *   so each row can be understood on its own.
+ */
+export const csvLoader: DocumentLoader = {
+    format: 'csv',
+    extensions: ['.csv'],
+
+    load(content, sourceFile) {
+        const [header = [], ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+        const columns = header.map(name => name.trim());
+        const column = (...names: string[]) => columns.findIndex(name => names.includes(name.toLowerCase()));
+        const title = titleFromFileName(sourceFile);
+
+        const question = column('question');
+        const answer = column('answer');
+        if (question >= 0 && answer >= 0) {
+            const group = column('section', 'category');
+            const sections: DocumentSection[] = rows
+                .filter(row => row[question]?.trim() && row[answer]?.trim())
+                .map(row => ({
+                    title: [group >= 0 ? row[group]?.trim() : '', row[question].trim()].filter(Boolean).join(' > '),
+                    anchor: slugify(row[question]),
+                    text: row[answer].trim(),
+                }));
+            return { sourceFile, title, sections };
+        }
+
+        const text = rows
+            .map(row => columns
+                .map((name, i) => (row[i]?.trim() ? `${name}: ${row[i].trim()}` : ''))
+                .filter(Boolean)
+                .join('; '))
+            .filter(Boolean)
+            .join('\n\n');
+        return { sourceFile, title, sections: text ? [{ title, text }] : [] };
+    },
+};
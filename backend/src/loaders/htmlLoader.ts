@@ -0,0 +1,85 @@
+import type { DocumentLoader } from './types.js';
+import { createSectionBuilder, slugify, titleFromFileName } from './sections.js';
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    ndash: '–', mdash: '—', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', copy: '©', reg: '®', trade: '™',
+};
+
+// Elements that end a paragraph, and the marker they are replaced with before splitting
+const BLOCK_TAGS = /<\/?(?:p|div|section|article|main|ul|ol|li|table|tr|blockquote|pre|dl|dt|dd|br)\b[^>]*>/gi;
+const BLOCK_BREAK = '\u0000';
+
+/**
+ * Decodes the character references help-center pages commonly contain.
+ */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : reference;
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? reference;
+    });
+}
+
+/**
+ * Reduces an HTML fragment to its text.
+ */
+function textOf(html: string): string {
+    return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function attribute(tag: string, name: string): string | undefined {
+    return tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find(value => value !== undefined);
+}
+
+/**
+ * Loads an HTML help page. Scripts, styles and page chrome (nav, header, footer, aside) are dropped;
+ * h1-h6 open sections, and block elements (p, li, tr, div, br) end paragraphs.
+ * The <title> (or first h1) names the document and <link rel="canonical"> links it.
+ * Heading ids become section anchors.
+ */
+export const htmlLoader: DocumentLoader = {
+    format: 'html',
+    extensions: ['.html', '.htm'],
+
+    load(content, sourceFile) {
+        const canonical = content.match(/<link\b[^>]*\brel\s*=\s*["']canonical["'][^>]*>/i)?.[0];
+        const pageTitle = textOf(content.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '');
+
+        const body = (content.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? content)
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .replace(/<(script|style|noscript|template|nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, '');
+
+        const builder = createSectionBuilder();
+        let firstHeading: string | undefined;
+        // Split the body at headings; the text between two headings belongs to the first
+        const headingPattern = /<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/gi;
+        const addBlock = (html: string) => {
+            html
+                .replace(/<li\b[^>]*>/gi, `${BLOCK_BREAK}- `)
+                .replace(/<\/t[dh]>\s*(?=<t[dh]\b)/gi, ' | ')
+                .replace(BLOCK_TAGS, BLOCK_BREAK)
+                .split(BLOCK_BREAK)
+                .forEach(block => builder.paragraph(textOf(block)));
+        };
+
+        let position = 0;
+        for (const match of body.matchAll(headingPattern)) {
+            addBlock(body.slice(position, match.index));
+            const heading = textOf(match[3]);
+            firstHeading ??= heading;
+            builder.heading(Number(match[1]), heading, attribute(match[2], 'id') ?? slugify(heading));
+            position = match.index! + match[0].length;
+        }
+        addBlock(body.slice(position));
+
+        return {
+            sourceFile,
+            title: pageTitle || firstHeading || titleFromFileName(sourceFile),
+            url: canonical ? attribute(canonical, 'href') : undefined,
+            sections: builder.sections(),
+        };
+    },
+};
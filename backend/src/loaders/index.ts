@@ -0,0 +1,22 @@
+import * as path from 'path';
+import { csvLoader } from './csvLoader.js';
+import { htmlLoader } from './htmlLoader.js';
+import { markdownLoader } from './markdownLoader.js';
+import { textLoader } from './textLoader.js';
+import type { DocumentLoader } from './types.js';
+
+export type { DocumentLoader, DocumentSection, LoadedDocument } from './types.js';
+export { parseCsv } from './csvLoader.js';
+export { slugify } from './sections.js';
+
+// Every supported format. Files with other extensions are skipped by ingestion.
+export const documentLoaders: DocumentLoader[] = [markdownLoader, htmlLoader, textLoader, csvLoader];
+
+/**
+ * Finds the loader for a file by its extension.
+ * @returns The loader, or null if the format is not supported.
+ */
+export function loaderFor(filePath: string): DocumentLoader | null {
+    const extension = path.extname(filePath).toLowerCase();
+    return documentLoaders.find(loader => loader.extensions.includes(extension)) ?? null;
+}
@@ -0,0 +1,101 @@
+import type { DocumentLoader } from './types.js';
+import { createSectionBuilder, titleFromFileName } from './sections.js';
+
+/**
+ * Reads the simple "key: value" front matter some help-center exports start with.
+ */
+function readFrontMatter(content: string): { fields: Record<string, string>; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) return { fields: {}, body: content };
+    const fields: Record<string, string> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const field = line.match(/^(\w+)\s*:\s*(.*)$/);
+        if (field) fields[field[1].toLowerCase()] = field[2].trim().replace(/^["']|["']$/g, '');
+    }
+    return { fields, body: content.slice(match[0].length) };
+}
+
+/**
+ * Strips inline Markdown so only the words are embedded: links keep their text, emphasis and code marks are dropped.
+ */
+function stripInline(text: string): string {
+    return text
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/(\*\*|__|\*|_|`)(\S[\s\S]*?)\1/g, '$2')
+        .replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Loads Markdown. ATX headings ("## Title") and setext headings (underlined with = or -) open sections;
+ * paragraphs, list items and table rows become the section text. Fenced code is kept verbatim.
+ * A front-matter `title` or the first top-level heading names the document, and a front-matter `url` links it.
+ */
+export const markdownLoader: DocumentLoader = {
+    format: 'markdown',
+    extensions: ['.md', '.markdown'],
+
+    load(content, sourceFile) {
+        const { fields, body } = readFrontMatter(content);
+        const builder = createSectionBuilder();
+        const lines = body.split(/\r?\n/);
+        let title = fields.title;
+        let paragraph: string[] = [];
+        let inFence = false;
+
+        const endParagraph = () => {
+            builder.paragraph(paragraph.join('\n'));
+            paragraph = [];
+        };
+        const openHeading = (level: number, text: string) => {
+            endParagraph();
+            const heading = stripInline(text).replace(/\s+#+\s*$/, '').trim();
+            if (level === 1 && !title) title = heading;
+            builder.heading(level, heading);
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+                continue;
+            }
+            if (inFence) {
+                paragraph.push(line);
+                continue;
+            }
+
+            const atx = line.match(/^(#{1,6})\s+(.*)$/);
+            if (atx) {
+                openHeading(atx[1].length, atx[2]);
+                continue;
+            }
+            const next = lines[i + 1];
+            if (line.trim() && paragraph.length === 0 && next !== undefined && /^(=+|-+)\s*$/.test(next)) {
+                openHeading(next.startsWith('=') ? 1 : 2, line);
+                i++;
+                continue;
+            }
+
+            if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+                endParagraph();
+            } else if (/^\s*\|?\s*:?-{3,}/.test(line)) {
+                continue; // Table header separator
+            } else {
+                const text = stripInline(line)
+                    .replace(/^\s*>\s?/, '')
+                    .replace(/^\s*([-*+]|\d+[.)])\s+/, '- ')
+                    .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join(' | '));
+                paragraph.push(text);
+            }
+        }
+        endParagraph();
+
+        return {
+            sourceFile,
+            title: title || titleFromFileName(sourceFile),
+            url: fields.url,
+            sections: builder.sections(),
+        };
+    },
+};
@@ -0,0 +1,62 @@
+import * as path from 'path';
+import type { DocumentSection } from './types.js';
+
+/**
+ * Turns a heading into a URL fragment the way most help-center and Markdown renderers do
+ * ("Final Sale Items" -> "final-sale-items").
+ */
+export function slugify(heading: string): string {
+    return heading
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+/**
+ * Derives a readable title from a file name ("returns-policy.md" -> "Returns Policy").
+ */
+export function titleFromFileName(sourceFile: string): string {
+    return path.basename(sourceFile, path.extname(sourceFile))
+        .split(/[-_\s]+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+/**
+ * Collects paragraphs into sections while tracking the current heading path.
+ * Loaders report headings and paragraphs in document order; empty sections are dropped.
+ */
+export function createSectionBuilder() {
+    const sections: DocumentSection[] = [];
+    const headings: { level: number; text: string }[] = [];
+    let current: DocumentSection = { title: '', text: '' };
+
+    const flush = () => {
+        if (current.text.trim()) sections.push({ ...current, text: current.text.trim() });
+    };
+
+    return {
+        /** Starts a new section under a heading of the given level (1 = top). */
+        heading(level: number, text: string, anchor = slugify(text)) {
+            flush();
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+            headings.push({ level, text });
+            current = { title: headings.map(heading => heading.text).join(' > '), anchor, text: '' };
+        },
+
+        /** Adds a paragraph to the current section. */
+        paragraph(text: string) {
+            const normalized = text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+            if (normalized) current.text += `${normalized}\n\n`;
+        },
+
+        /** The sections collected so far. */
+        sections(): DocumentSection[] {
+            flush();
+            current = { ...current, text: '' };
+            return sections;
+        },
+    };
+}
@@ -0,0 +1,43 @@
+import type { DocumentLoader } from './types.js';
+import { createSectionBuilder, titleFromFileName } from './sections.js';
+
+// Plain text (including text converted from PDFs) has no markup, so a heading is guessed:
+// a paragraph of a single short line that does not read like a sentence or a list item.
+const MAX_HEADING_LENGTH = 80;
+
+function looksLikeHeading(paragraph: string): boolean {
+    const line = paragraph.trim();
+    return !line.includes('\n')
+        && line.length <= MAX_HEADING_LENGTH
+        && /\p{L}/u.test(line)
+        && !/[.,;!?]$/.test(line)
+        && !/^([-*•]|\d+[.)])\s/.test(line);
+}
+
+/**
+ * Loads plain text. Paragraphs are separated by blank lines; a standalone short line opens a section.
+ * A heading in the first paragraph names the document.
+ */
+export const textLoader: DocumentLoader = {
+    format: 'text',
+    extensions: ['.txt', '.text'],
+
+    load(content, sourceFile) {
+        const builder = createSectionBuilder();
+        const paragraphs = content.replace(/\f/g, '\n\n').split(/\r?\n\s*\r?\n/).filter(paragraph => paragraph.trim());
+        let title: string | undefined;
+
+        paragraphs.forEach((paragraph, i) => {
+            if (!looksLikeHeading(paragraph)) {
+                builder.paragraph(paragraph);
+            } else if (i === 0) {
+                title = paragraph.trim();
+                builder.heading(1, title);
+            } else {
+                builder.heading(title ? 2 : 1, paragraph.trim());
+            }
+        });
+
+        return { sourceFile, title: title ?? titleFromFileName(sourceFile), sections: builder.sections() };
+    },
+};
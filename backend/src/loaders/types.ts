@@ -0,0 +1,34 @@
+// --- SHARED LOADER TYPES ---
+// Policy and help documents arrive in several formats (Markdown, HTML, plain text, CSV exports).
+// Every loader turns a file into the same LoadedDocument: a title and a list of sections, each
+// under its heading path, so the chunker never needs to know where the text came from.
+
+// A run of text under one heading
+export interface DocumentSection {
+    title: string; // The heading path, e.g. "Returns Policy > Final sale items" ('' before the first heading)
+    anchor?: string; // Fragment identifier of the heading, for linking to the section
+    text: string; // Paragraphs separated by blank lines
+}
+
+// A source file after parsing
+export interface LoadedDocument {
+    sourceFile: string; // Path relative to the documents directory, e.g. "policies/returns.md"
+    title: string; // The document's own title, or its file name when it has none
+    url?: string; // Canonical page for the document, when the file declares one
+    sections: DocumentSection[];
+}
+
+export interface DocumentLoader {
+    /** Format name used in logs (e.g. "markdown"). */
+    readonly format: string;
+
+    /** Lower-case file extensions this loader reads, including the dot. */
+    readonly extensions: string[];
+
+    /**
+     * Parses a file's contents.
+     * @param content The file's text.
+     * @param sourceFile The file's path relative to the documents directory.
+     */
+    load(content: string, sourceFile: string): LoadedDocument;
+}
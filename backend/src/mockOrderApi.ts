@@ -0,0 +1,54 @@
+import 'dotenv/config';
+import express, { type Request, type Response } from 'express';
+import { createLocalOrderService, ORDERS_DATA_PATH, ORDERS_STATE_PATH } from './orders/index.js';
+
+// --- Configuration ---
+// A stand-in for the production order API, serving data/orders.json in the shape the HTTP
+// order service expects. Point the backend at it with ORDER_API_URL=http://localhost:4000.
+const app = express();
+const port = process.env.MOCK_ORDER_API_PORT || 4000;
+const orders = createLocalOrderService(ORDERS_DATA_PATH, ORDERS_STATE_PATH);
+
+app.use(express.json());
+
+/**
+ * Returns a single order, or 404 if it does not exist.
+ */
+app.get('/orders/:orderId', async (req: Request, res: Response) => {
+    const order = await orders.getOrder(req.params.orderId);
+    console.log(`[Mock Order API] GET ${req.params.orderId} -> ${order ? order.status : 'not found'}`);
+    if (!order) {
+        return res.status(404).json({ error: 'Order not found.' });
+    }
+    return res.json(order);
+});
+
+/**
+ * Runs a write against an existing order, answering 404 if it does not exist.
+ */
+async function withOrder(req: Request, res: Response, operation: string, run: (orderId: string) => Promise<unknown>) {
+    const orderId = req.params.orderId;
+    if (!(await orders.getOrder(orderId))) {
+        return res.status(404).json({ error: 'Order not found.' });
+    }
+    console.log(`[Mock Order API] ${operation} ${orderId}`);
+    return res.json(await run(orderId));
+}
+
+app.post('/orders/:orderId/cancel', (req: Request, res: Response) =>
+    withOrder(req, res, 'Cancel', orderId => orders.cancelOrder(orderId)));
+
+app.put('/orders/:orderId/shipping-address', (req: Request, res: Response) => {
+    if (typeof req.body?.address !== 'string' || !req.body.address.trim()) {
+        return res.status(400).json({ error: 'address is required.' });
+    }
+    return withOrder(req, res, 'Change address of', orderId => orders.updateShippingAddress(orderId, req.body.address));
+});
+
+app.post('/orders/:orderId/returns', (req: Request, res: Response) =>
+    withOrder(req, res, 'Return', orderId => orders.createReturn(orderId, Array.isArray(req.body?.items) ? req.body.items : [], req.body?.reason)));
+
+app.listen(port, () => {
+    console.log(`\n✅ Mock order API running on http://localhost:${port}`);
+    console.log(`Serving ${ORDERS_DATA_PATH} (changes saved to ${ORDERS_STATE_PATH ?? 'memory'})`);
+});
@@ -0,0 +1,67 @@
+import type { Order } from './orders/index.js';
+
+// --- CONFIGURATION ---
+// RETURN_WINDOW_DAYS  Days after purchase during which items can be returned (see the Returns Policy FAQ).
+const RETURN_WINDOW_DAYS = Number(process.env.RETURN_WINDOW_DAYS || 30);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OrderAction = 'cancel' | 'change_address' | 'return';
+
+// Whether an action is allowed on an order, and if not, why (phrased for the user)
+export type Eligibility =
+    | { eligible: true }
+    | { eligible: false; reason: string };
+
+/**
+ * Checks whether an action may be taken on an order:
+ * - cancel: only while the order is still Processing.
+ * - change_address: only before the order ships (Processing).
+ * - return: only once delivered, within RETURN_WINDOW_DAYS of purchase, and not already returned.
+ * @param order The order.
+ * @param action The requested action.
+ * @param now The current time (epoch ms), for the return window.
+ */
+export function checkEligibility(order: Order, action: OrderAction, now = Date.now()): Eligibility {
+    switch (action) {
+        case 'cancel':
+            if (order.status === 'Processing') return { eligible: true };
+            return {
+                eligible: false,
+                reason: order.status === 'Cancelled'
+                    ? `Order ${order.id} is already cancelled.`
+                    : `Order ${order.id} has already ${order.status === 'Shipped' ? 'shipped' : 'been delivered'}, so it can no longer be cancelled. You can start a return once it has been delivered.`,
+            };
+
+        case 'change_address':
+            if (order.status === 'Processing') return { eligible: true };
+            return {
+                eligible: false,
+                reason: order.status === 'Cancelled'
+                    ? `Order ${order.id} was cancelled, so its address can't be changed.`
+                    : `Order ${order.id} has already ${order.status === 'Shipped' ? 'shipped' : 'been delivered'}, so its shipping address can no longer be changed.`,
+            };
+
+        case 'return': {
+            if (order.status !== 'Delivered') {
+                return {
+                    eligible: false,
+                    reason: order.status === 'Cancelled'
+                        ? `Order ${order.id} was cancelled, so there is nothing to return.`
+                        : `Order ${order.id} hasn't been delivered yet. You can start a return once it arrives.`,
+                };
+            }
+            if ((order.returns ?? []).length > 0) {
+                return { eligible: false, reason: `A return has already been started for order ${order.id} (${order.returns![0].rmaNumber}).` };
+            }
+            const daysSincePurchase = Math.floor((now - new Date(order.placedAt).getTime()) / DAY_MS);
+            if (daysSincePurchase > RETURN_WINDOW_DAYS) {
+                return {
+                    eligible: false,
+                    reason: `Order ${order.id} was placed ${daysSincePurchase} days ago. Our returns policy allows returns within ${RETURN_WINDOW_DAYS} days of purchase, so it is no longer eligible for a return.`,
+                };
+            }
+            return { eligible: true };
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import { createOrderService, type Order, type OrderService, type ReturnAuthorization } from './orders/index.js';
+
+// The order backend used for lookups and changes (swappable for tests)
+let orderService: OrderService = createOrderService();
+
+/**
+ * Replaces the order service used for lookups and changes.
+ * @param service The service to use from now on.
+ */
+export function useOrderService(service: OrderService): void {
+    orderService = service;
+}
+
+/**
+ * Looks up an order with the configured order service.
+ * @returns The order, or null if it does not exist.
+ */
+export function findOrder(orderId: string): Promise<Order | null> {
+    return orderService.getOrder(orderId);
+}
+
+/**
+ * Cancels an order with the configured order service.
+ */
+export function cancelOrder(orderId: string): Promise<Order> {
+    return orderService.cancelOrder(orderId);
+}
+
+/**
+ * Changes an order's shipping address with the configured order service.
+ */
+export function changeShippingAddress(orderId: string, address: string): Promise<Order> {
+    return orderService.updateShippingAddress(orderId, address);
+}
+
+/**
+ * Starts a return for the given items of an order with the configured order service.
+ */
+export function startReturn(orderId: string, items: string[], reason?: string): Promise<ReturnAuthorization> {
+    return orderService.createReturn(orderId, items, reason);
+}
+
+/**
+ * Formats an ISO date for speech, e.g. "October 5, 2026".
+ */
+function formatDate(isoDate: string): string {
+    return new Date(isoDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Summarizes the items in an order, e.g. "2 x Wireless Earbuds and 1 x Charging Case".
+ */
+export function describeItems(order: Order): string {
+    const items = order.items.map(item => `${item.quantity} x ${item.name}`);
+    return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+/**
+ * Builds the conversational status message for an order.
+ * @param order The order as returned by the order service.
+ */
+export function formatOrderStatus(order: Order): string {
+    let message = `The status for your order **${order.id}** (${describeItems(order)}) is currently **${order.status}**.`;
+    const shipment = order.shipment;
+    const latestEvent = shipment?.events[shipment.events.length - 1];
+
+    if (order.status === 'Shipped' && shipment) {
+        message += ` It shipped with ${shipment.carrier}, tracking number ${shipment.trackingNumber}.`;
+        if (shipment.estimatedDelivery) {
+            message += ` It is expected to arrive on ${formatDate(shipment.estimatedDelivery)}.`;
+        }
+        if (latestEvent) {
+            message += ` Latest update: ${latestEvent.description}${latestEvent.location ? ` in ${latestEvent.location}` : ''} on ${formatDate(latestEvent.timestamp)}.`;
+        }
+    } else if (order.status === 'Delivered') {
+        const deliveredAt = shipment?.deliveredAt ?? latestEvent?.timestamp;
+        message += deliveredAt ? ` It was successfully delivered on ${formatDate(deliveredAt)}.` : ` It has been delivered.`;
+    } else if (order.status === 'Processing') {
+        message += ` It was placed on ${formatDate(order.placedAt)}. We are still preparing your item for shipment. We will notify you when it ships.`;
+    } else if (order.status === 'Cancelled') {
+        message += order.cancelledAt
+            ? ` It was cancelled on ${formatDate(order.cancelledAt)}. Any payment will be refunded to the original payment method.`
+            : ` Any payment will be refunded to the original payment method.`;
+    }
+
+    return message;
+}
+
+/**
+ * Looks up an order with the configured order service and describes its status.
+ * * @param orderId The extracted Order ID from the user's query.
+ * @returns A conversational status message, including when the order cannot be found.
+ */
+export async function getOrderStatus(orderId: string): Promise<string> {
+    const order = await findOrder(orderId);
+    if (!order) {
+        console.log(`[Orders] Order ${orderId} not found (${orderService.name}).`);
+        return `I couldn't find an order with the number **${orderId.toUpperCase()}**. Please check the number in your order confirmation email and try again.`;
+    }
+    return formatOrderStatus(order);
+}
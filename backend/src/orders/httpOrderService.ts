@@ -0,0 +1,59 @@
+import axios from 'axios';
+import type { Order, OrderService, ReturnAuthorization } from './types.js';
+
+// How long to wait for the order API before giving up
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Creates an order service that calls a remote order API:
+ * - GET {baseUrl}/orders/{orderId} returns an Order as JSON, or 404 if it does not exist.
+ * - POST {baseUrl}/orders/{orderId}/cancel returns the updated Order.
+ * - PUT {baseUrl}/orders/{orderId}/shipping-address with { address } returns the updated Order.
+ * - POST {baseUrl}/orders/{orderId}/returns with { items, reason } returns a ReturnAuthorization.
+ * `npm run mock:orders` serves data/orders.json in this shape for local testing.
+ * @param baseUrl Root URL of the order API (e.g. "http://localhost:4000").
+ * @param apiKey Optional bearer token sent with every request.
+ */
+export function createHttpOrderService(baseUrl: string, apiKey?: string): OrderService {
+    const client = axios.create({
+        baseURL: baseUrl.replace(/\/+$/, ''),
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    });
+
+    const orderPath = (orderId: string) => `/orders/${encodeURIComponent(orderId.toUpperCase())}`;
+
+    // Runs a write request, turning transport errors into a descriptive error
+    const send = async <T>(orderId: string, operation: string, request: () => Promise<{ data: T }>): Promise<T> => {
+        try {
+            return (await request()).data;
+        } catch (error) {
+            throw new Error(`Order API ${operation} for ${orderId} failed: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    return {
+        name: 'http',
+
+        async getOrder(orderId: string) {
+            try {
+                const response = await client.get<Order>(orderPath(orderId));
+                return response.data;
+            } catch (error) {
+                if (axios.isAxiosError(error) && error.response?.status === 404) {
+                    return null;
+                }
+                throw new Error(`Order API request for ${orderId} failed: ${error instanceof Error ? error.message : error}`);
+            }
+        },
+
+        cancelOrder: (orderId: string) =>
+            send(orderId, 'cancel', () => client.post<Order>(`${orderPath(orderId)}/cancel`)),
+
+        updateShippingAddress: (orderId: string, address: string) =>
+            send(orderId, 'address change', () => client.put<Order>(`${orderPath(orderId)}/shipping-address`, { address })),
+
+        createReturn: (orderId: string, items: string[], reason?: string) =>
+            send(orderId, 'return', () => client.post<ReturnAuthorization>(`${orderPath(orderId)}/returns`, { items, reason })),
+    };
+}
@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { createHttpOrderService } from './httpOrderService.js';
+import { createLocalOrderService } from './localOrderService.js';
+import type { OrderService } from './types.js';
+
+export type { Customer, LineItem, Order, OrderService, OrderStatus, ReturnAuthorization, Shipment, ShipmentEvent } from './types.js';
+export { createHttpOrderService } from './httpOrderService.js';
+export { createLocalOrderService } from './localOrderService.js';
+
+// --- CONFIGURATION ---
+// ORDER_SERVICE selects the backend: 'local' (data/orders.json) or 'http' (ORDER_API_URL).
+// Defaults to the HTTP adapter when ORDER_API_URL is set, otherwise the local data file.
+// ORDER_API_KEY is sent as a bearer token to the order API, if set.
+// ORDERS_DATA_PATH is the local seed data, which is never modified. ORDERS_STATE_PATH is where the local
+// service saves changed orders (git-ignored; copied from the seed on the first change), or 'off' to keep them in memory.
+export const ORDERS_DATA_PATH = process.env.ORDERS_DATA_PATH || path.join(process.cwd(), 'data', 'orders.json');
+const ORDERS_STATE_SETTING = process.env.ORDERS_STATE_PATH || path.join(process.cwd(), 'data', 'orders.local.json');
+export const ORDERS_STATE_PATH = ORDERS_STATE_SETTING === 'off' ? undefined : ORDERS_STATE_SETTING;
+const ORDER_API_URL = process.env.ORDER_API_URL;
+const ORDER_API_KEY = process.env.ORDER_API_KEY;
+
+export type OrderServiceBackend = 'local' | 'http';
+
+/**
+ * Resolves the configured backend from ORDER_SERVICE.
+ */
+export function getOrderServiceBackend(): OrderServiceBackend {
+    const configured = process.env.ORDER_SERVICE?.toLowerCase();
+    if (configured === 'local' || configured === 'http') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown ORDER_SERVICE "${configured}". Falling back to the default order service.`);
+    }
+    return ORDER_API_URL ? 'http' : 'local';
+}
+
+/**
+ * Creates the order service selected by configuration.
+ */
+export function createOrderService(): OrderService {
+    if (getOrderServiceBackend() === 'http') {
+        if (!ORDER_API_URL) {
+            throw new Error("ORDER_SERVICE is 'http' but ORDER_API_URL is not set.");
+        }
+        return createHttpOrderService(ORDER_API_URL, ORDER_API_KEY);
+    }
+    return createLocalOrderService(ORDERS_DATA_PATH, ORDERS_STATE_PATH);
+}
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import { randomInt } from 'crypto';
+import type { Order, OrderService, ReturnAuthorization } from './types.js';
+
+// Characters for label references: no 0/O or 1/I, which are easily confused when read aloud
+const LABEL_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Creates an order service backed by a JSON file of orders (see data/orders.json).
+ * The file is re-read when it changes on disk, so edits show up without a restart.
+ * The seed file is never written: changes made through the service (cancellations, address changes,
+ * returns) go to a separate state file, which is read instead of the seed from then on.
+ * @param filePath Path to a JSON array of orders.
+ * @param statePath Where changed orders are saved. Omit to keep changes in memory only.
+ */
+export function createLocalOrderService(filePath: string, statePath?: string): OrderService {
+    let cached: { path: string; mtimeMs: number; orders: Map<string, Order> } | null = null;
+    let changedInMemory = false; // Without a state file, reloading the seed would undo the changes
+
+    const load = (): Map<string, Order> => {
+        if (cached && changedInMemory) return cached.orders;
+        const source = statePath && fs.existsSync(statePath) ? statePath : filePath;
+        const { mtimeMs } = fs.statSync(source);
+        if (!cached || cached.path !== source || cached.mtimeMs !== mtimeMs) {
+            const orders: Order[] = JSON.parse(fs.readFileSync(source, 'utf-8'));
+            cached = { path: source, mtimeMs, orders: new Map(orders.map(order => [order.id.toUpperCase(), order])) };
+            console.log(`[Orders] Loaded ${orders.length} orders from ${source}`);
+        }
+        return cached.orders;
+    };
+
+    const save = () => {
+        if (!cached) return;
+        if (!statePath) {
+            changedInMemory = true;
+            return;
+        }
+        fs.writeFileSync(statePath, JSON.stringify([...cached.orders.values()], null, 2) + '\n');
+        cached = { ...cached, path: statePath, mtimeMs: fs.statSync(statePath).mtimeMs };
+    };
+
+    // Applies a change to an existing order and persists it
+    const update = <T>(orderId: string, change: (order: Order) => T): T => {
+        const order = load().get(orderId.toUpperCase());
+        if (!order) {
+            throw new Error(`Order ${orderId} not found.`);
+        }
+        const result = change(order);
+        save();
+        return result;
+    };
+
+    return {
+        name: 'local',
+
+        async getOrder(orderId: string) {
+            return load().get(orderId.toUpperCase()) ?? null;
+        },
+
+        async cancelOrder(orderId: string) {
+            return update(orderId, order => {
+                order.status = 'Cancelled';
+                order.cancelledAt = new Date().toISOString();
+                return order;
+            });
+        },
+
+        async updateShippingAddress(orderId: string, address: string) {
+            return update(orderId, order => {
+                order.shippingAddress = address;
+                return order;
+            });
+        },
+
+        async createReturn(orderId: string, items: string[], reason?: string) {
+            return update(orderId, order => {
+                const label = Array.from({ length: 8 }, () => LABEL_ALPHABET[randomInt(LABEL_ALPHABET.length)]).join('');
+                const authorization: ReturnAuthorization = {
+                    rmaNumber: `RMA-${randomInt(100000, 1000000)}`,
+                    labelReference: `LBL-${label}`,
+                    createdAt: new Date().toISOString(),
+                    reason,
+                    items,
+                };
+                order.returns = [...(order.returns ?? []), authorization];
+                return authorization;
+            });
+        },
+    };
+}
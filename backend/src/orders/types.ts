@@ -0,0 +1,84 @@
+// --- SHARED ORDER TYPES ---
+// Order lookups go through an OrderService so the same routing code can talk to the local
+// data file during development and to the real order API in production.
+
+export type OrderStatus = 'Processing' | 'Shipped' | 'Delivered' | 'Cancelled';
+
+export interface LineItem {
+    sku: string;
+    name: string;
+    quantity: number;
+    unitPrice: number; // In the order's currency
+}
+
+// A carrier scan or status change, oldest first
+export interface ShipmentEvent {
+    timestamp: string; // ISO 8601
+    description: string;
+    location?: string;
+}
+
+export interface Shipment {
+    carrier: string;
+    trackingNumber: string;
+    estimatedDelivery?: string; // ISO 8601 date
+    deliveredAt?: string; // ISO 8601
+    events: ShipmentEvent[];
+}
+
+export interface Customer {
+    name: string;
+    email: string;
+    postalCode: string;
+}
+
+// A return authorization (RMA) with the prepaid shipping label to send the items back with
+export interface ReturnAuthorization {
+    rmaNumber: string; // e.g. "RMA-204518"
+    labelReference: string; // Prepaid-label reference, e.g. "LBL-7F3K9Q2M"
+    createdAt: string; // ISO 8601
+    reason?: string;
+    items: string[]; // SKUs being returned
+}
+
+export interface Order {
+    id: string;
+    status: OrderStatus;
+    placedAt: string; // ISO 8601
+    currency: string;
+    customer: Customer;
+    shippingAddress: string;
+    items: LineItem[];
+    shipment?: Shipment; // Absent until the order ships
+    cancelledAt?: string; // ISO 8601
+    returns?: ReturnAuthorization[];
+}
+
+export interface OrderService {
+    /** Identifies the backend in logs (e.g. "local", "http"). */
+    readonly name: string;
+
+    /**
+     * Looks up an order by its ID (case-insensitive).
+     * @returns The order, or null if no such order exists.
+     */
+    getOrder(orderId: string): Promise<Order | null>;
+
+    /**
+     * Cancels an order. Eligibility is checked by the caller (see orderActions.ts).
+     * @returns The updated order.
+     */
+    cancelOrder(orderId: string): Promise<Order>;
+
+    /**
+     * Replaces the shipping address of an order that has not shipped yet.
+     * @returns The updated order.
+     */
+    updateShippingAddress(orderId: string, address: string): Promise<Order>;
+
+    /**
+     * Authorizes a return of the given items and issues a prepaid shipping label.
+     * @returns The new return authorization.
+     */
+    createReturn(orderId: string, items: string[], reason?: string): Promise<ReturnAuthorization>;
+}
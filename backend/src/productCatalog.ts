@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- CONFIGURATION ---
+// PRODUCTS_DATA_PATH  The product catalog file (a JSON array of products).
+export const PRODUCTS_DATA_PATH = process.env.PRODUCTS_DATA_PATH || path.join(process.cwd(), 'data', 'products.json');
+
+// Matches scoring below this are ignored
+export const MIN_MATCH_CONFIDENCE = 0.6;
+
+// A match is confident when it scores at least this and no other product comes close
+export const CONFIDENT_MATCH = 0.8;
+
+// How close the runner-up must be for the reply to ask "did you mean...?"
+export const AMBIGUITY_MARGIN = 0.1;
+
+// Stock on hand; null on the product means it is not a physical item (e.g. a subscription)
+export interface StockLevel {
+    level: number;
+    restockDate?: string; // ISO 8601 date of the next shipment
+}
+
+export interface ProductVariant {
+    sku: string;
+    name: string; // e.g. "Black", "Annual billing"
+    price?: number; // Defaults to the product's price
+    billing?: string; // Defaults to the product's billing period
+    stock?: StockLevel; // Defaults to the product's stock
+}
+
+export interface Product {
+    sku: string;
+    name: string;
+    url?: string; // Product page, used for citations
+    aliases: string[];
+    category: string;
+    price: number;
+    currency: string;
+    billing?: string; // e.g. "per month" for subscriptions
+    stock: StockLevel | null;
+    description: string;
+    specs: Record<string, string>;
+    variants: ProductVariant[];
+}
+
+export interface ProductMatch {
+    product: Product;
+    confidence: number; // In [0, 1]
+    matchedTerm: string; // The name or alias that matched best
+}
+
+let cached: { mtimeMs: number; products: Product[] } | null = null;
+
+/**
+ * Loads the product catalog, re-reading the file when it changes on disk.
+ */
+export function loadProducts(): Product[] {
+    const { mtimeMs } = fs.statSync(PRODUCTS_DATA_PATH);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+        cached = { mtimeMs, products: JSON.parse(fs.readFileSync(PRODUCTS_DATA_PATH, 'utf-8')) };
+        console.log(`[Catalog] Loaded ${cached.products.length} products from ${PRODUCTS_DATA_PATH}`);
+    }
+    return cached.products;
+}
+
+// Measurements that look like order IDs but name a spec ("144Hz", "1440p", "500GB")
+const SPEC_TOKEN_PATTERN = /^\d+(HZ|P|K|GB|TB|MB|MM|CM|IN|W|MAH|DPI|NITS)$/;
+
+let catalogTokens: { products: Product[]; tokens: Set<string> } | null = null;
+
+/**
+ * Whether a token names something in the catalog (a SKU, model or spec such as "NC700" or "HDR10")
+ * or a measurement, rather than an order. Compared upper-case and without dashes.
+ * @param token A candidate order ID.
+ */
+export function isCatalogToken(token: string): boolean {
+    const normalized = token.toUpperCase().replace(/-/g, '');
+    if (SPEC_TOKEN_PATTERN.test(normalized)) return true;
+
+    const products = loadProducts();
+    if (catalogTokens?.products !== products) {
+        const text = products.map(product => [
+            product.sku, product.name, product.description, ...product.aliases, ...Object.values(product.specs),
+            ...product.variants.flatMap(variant => [variant.sku, variant.name]),
+        ].join(' ')).join(' ');
+        const tokens = new Set(text.toUpperCase().split(/[^A-Z0-9-]+/).flatMap(word => [word, word.replace(/-/g, '')]));
+        catalogTokens = { products, tokens };
+    }
+    return catalogTokens.tokens.has(normalized);
+}
+
+/**
+ * Lower-cases and strips punctuation so "Monitor-X" and "monitor x" compare equal.
+ */
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Scores how well a query refers to a product name or alias.
+ * Whole-word containment scores highest; otherwise the best edit-distance similarity between
+ * the term and any run of query words of similar length, so misspellings inside a longer
+ * question ("how much is the pro suit") still match.
+ * @returns A confidence in [0, 1].
+ */
+function scoreTerm(query: string, term: string): number {
+    if (query === term) return 1;
+    if (` ${query} `.includes(` ${term} `)) return 0.95;
+
+    const queryWords = query.split(' ');
+    const termLength = term.split(' ').length;
+    let best = 0;
+    for (let size = Math.max(1, termLength - 1); size <= termLength + 1; size++) {
+        for (let start = 0; start + size <= queryWords.length; start++) {
+            const window = queryWords.slice(start, start + size).join(' ');
+            const similarity = 1 - editDistance(window, term) / Math.max(window.length, term.length);
+            best = Math.max(best, similarity);
+        }
+    }
+    return best;
+}
+
+/**
+ * Finds the catalog products a query most likely refers to, by fuzzy matching against
+ * product names and aliases.
+ * @param query A product name as extracted from the user's question, or the question itself.
+ * @returns Matches above MIN_MATCH_CONFIDENCE, best first.
+ */
+export function findProducts(query: string): ProductMatch[] {
+    const normalizedQuery = normalize(query);
+    if (!normalizedQuery) return [];
+
+    const matches: ProductMatch[] = [];
+    for (const product of loadProducts()) {
+        let best: ProductMatch | null = null;
+        for (const term of [product.name, ...product.aliases]) {
+            const confidence = scoreTerm(normalizedQuery, normalize(term));
+            if (!best || confidence > best.confidence) {
+                best = { product, confidence, matchedTerm: term };
+            }
+        }
+        if (best && best.confidence >= MIN_MATCH_CONFIDENCE) {
+            matches.push(best);
+        }
+    }
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
+}
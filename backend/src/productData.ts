@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import type { KnowledgeBaseDocument } from './knowledgeBaseData.js';
+import { PRODUCTS_DATA_PATH, type Product, type StockLevel } from './productCatalog.js';
+
+/**
+ * Hashes the current contents of products.json so a stale index can be detected.
+ */
+export function fingerprintProductData(): string {
+    return createHash('sha256').update(fs.readFileSync(PRODUCTS_DATA_PATH)).digest('hex');
+}
+
+function describeStockForIndex(stock: StockLevel | null | undefined): string {
+    if (!stock) return 'Always available';
+    if (stock.level === 0) return `Out of stock${stock.restockDate ? `, restock expected ${stock.restockDate}` : ''}`;
+    return `${stock.level} in stock`;
+}
+
+/**
+ * Renders a product as the plain-text document that is embedded and passed to the model as context.
+ * Every spec is written out as "Name: value" so questions about a single spec can be answered from it.
+ * @param product The catalog entry.
+ */
+export function productDocument(product: Product): string {
+    const price = `${product.price} ${product.currency}${product.billing ? ` ${product.billing}` : ''}`;
+    const lines = [
+        `${product.name} (SKU ${product.sku}), ${product.category}.`,
+        product.aliases.length > 0 ? `Also known as: ${product.aliases.join(', ')}.` : '',
+        product.description,
+        `Price: ${price}.`,
+        `Availability: ${describeStockForIndex(product.stock)}.`,
+        ...Object.entries(product.specs).map(([name, value]) => `${name}: ${value}.`),
+        ...product.variants.map(variant => {
+            const details = [
+                variant.price !== undefined ? `price ${variant.price} ${product.currency}${variant.billing ?? product.billing ? ` ${variant.billing ?? product.billing}` : ''}` : '',
+                variant.stock ? describeStockForIndex(variant.stock).toLowerCase() : '',
+            ].filter(Boolean).join(', ');
+            return `Variant ${variant.name} (SKU ${variant.sku})${details ? `: ${details}` : ''}.`;
+        }),
+    ];
+    return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Builds the knowledge-base document for a catalog product. The record's doc_id is the SKU, so answers cite it.
+ * @param product The catalog entry.
+ */
+export function productRecordDocument(product: Product): KnowledgeBaseDocument {
+    const document = productDocument(product);
+    return {
+        id: `product-${product.sku}`,
+        text: document,
+        metadata: {
+            id: `product-${product.sku}`,
+            doc_id: product.sku,
+            doc_type: 'product',
+            sku: product.sku,
+            question: product.name,
+            answer: document,
+            url: product.url ?? '',
+        },
+    };
+}
@@ -1,53 +1,132 @@
+import { AMBIGUITY_MARGIN, CONFIDENT_MATCH, findProducts, loadProducts, type Product, type StockLevel } from './productCatalog.js';
+
+// The part of a product the user is asking about
+type ProductAspect = 'price' | 'availability' | 'specs' | 'variants' | 'overview';
+
+// Keyword patterns for each specific aspect, checked in order
+const ASPECT_PATTERNS: [ProductAspect, RegExp][] = [
+    ['price', /\b(price|prices|cost|costs|how much|expensive|cheap|discount)\b/i],
+    ['availability', /\b(stock|available|availability|sold out|restock|in store|back in)\b/i],
+    ['variants', /\b(colou?rs?|variants?|versions?|options?|models?)\b/i],
+    ['specs', /\b(specs?|specifications?|features?|size|weight|battery|resolution|refresh|storage|dimensions?|warranty)\b/i],
+];
+
 /**
- * Mock API function to retrieve specific product information.
- * In a real application, this would query a dedicated Product Catalog Database or API.
- * * @param productName The name of the product extracted from the user's query (e.g., "Apex Pro Suite").
- * @returns A string containing the mock product details.
+ * Works out which part of the product information the user asked for.
  */
-// Define the specific structure of a product item
-interface ProductDetails {
-    name: string;
-    details: string;
-    availability: string;
-}
-
-// Define the specific structure of the product catalog, mapping literal keys to the ProductDetails structure.
-interface ProductCatalog {
-    'pro suite': ProductDetails;
-    'basic plan': ProductDetails;
-    'monitor x': ProductDetails;
-}
-
-export function getProductInfo(productName: string): string {
-    const normalizedName = productName.toLowerCase().trim();
-
-    // Mock Product Data Lookup - Typed with ProductCatalog
-    const productData: ProductCatalog = {
-        'pro suite': {
-            name: 'Apex Pro Suite',
-            details: "The Apex Pro Suite is our premium offering, featuring real-time data analytics, unlimited cloud storage, and priority 24/7 technical support. It is currently available for purchase with a 15% introductory discount.",
-            availability: "In Stock"
-        },
-        'basic plan': {
-            name: 'Apex Basic Plan',
-            details: "The Basic Plan provides essential features, including 10GB of cloud storage and community-level support. It's a great starting point for individual users.",
-            availability: "Always Available"
-        },
-        'monitor x': {
-            name: 'Monitor X',
-            details: "Monitor X is a 32-inch 4K curved display with a 144Hz refresh rate and built-in eye-care technology. Comes with a 2-year warranty.",
-            availability: "Low Stock - Next shipment in 3 days."
-        }
-    };
-
-    const productKeys = Object.keys(productData) as (keyof ProductCatalog)[];
-
-    const productKey = productKeys.find(key => normalizedName.includes(key) || key.includes(normalizedName));
-
-    if (productKey) {
-        const product = productData[productKey];
-        return `${product.name} details: ${product.details} Current Availability: ${product.availability}`;
-    } else {
-        return `I'm sorry, I couldn't find specific details for a product named "${productName}". Could you please check the spelling or ask about 'Pro Suite', 'Basic Plan', or 'Monitor X'?`;
+function detectAspect(question: string): ProductAspect {
+    return ASPECT_PATTERNS.find(([, pattern]) => pattern.test(question))?.[0] ?? 'overview';
+}
+
+function formatPrice(product: Product, price: number, billing = product.billing): string {
+    if (price === 0) return 'free';
+    const amount = price.toLocaleString('en-US', { style: 'currency', currency: product.currency });
+    return billing ? `${amount} ${billing}` : amount;
+}
+
+function formatDate(isoDate: string): string {
+    return new Date(isoDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function describeStock(stock: StockLevel | null): string {
+    if (!stock) return 'always available';
+    if (stock.level === 0) {
+        return stock.restockDate ? `out of stock, with the next shipment expected on ${formatDate(stock.restockDate)}` : 'out of stock';
+    }
+    if (stock.level <= 10) return `in stock, but only ${stock.level} left`;
+    return 'in stock';
+}
+
+function describePrice(product: Product): string {
+    let message = product.price === 0
+        ? `${product.name} is free.`
+        : `${product.name} costs ${formatPrice(product, product.price)}.`;
+    const pricedVariants = product.variants.filter(variant => variant.price !== undefined && variant.price !== product.price);
+    if (pricedVariants.length > 0) {
+        message += ` ${pricedVariants.map(variant => `${variant.name}: ${formatPrice(product, variant.price!, variant.billing ?? product.billing)}`).join('; ')}.`;
+    }
+    return message;
+}
+
+function describeAvailability(product: Product): string {
+    let message = `${product.name} is ${describeStock(product.stock)}.`;
+    const variantStock = product.variants.filter(variant => variant.stock);
+    if (variantStock.length > 0) {
+        message += ` By option: ${variantStock.map(variant => `${variant.name} is ${describeStock(variant.stock!)}`).join('; ')}.`;
+    }
+    return message;
+}
+
+function describeVariants(product: Product): string {
+    if (product.variants.length === 0) {
+        return `${product.name} comes in a single version.`;
     }
+    return `${product.name} is available as: ${product.variants.map(variant => variant.name).join(', ')}.`;
+}
+
+function describeSpecs(product: Product, question: string): string {
+    // If the question names particular specs ("battery life"), answer only those
+    const words = new Set(question.toLowerCase().split(/[^a-z0-9]+/));
+    const entries = Object.entries(product.specs);
+    const asked = entries.filter(([name]) => name.toLowerCase().split(/[^a-z0-9]+/).some(word => word.length > 2 && words.has(word)));
+    const specs = (asked.length > 0 ? asked : entries).map(([name, value]) => `${name}: ${value}`);
+    return `${product.name} specifications: ${specs.join('; ')}.`;
+}
+
+/**
+ * Answers a question about a single product, limited to the aspect that was asked about.
+ * @param product The catalog entry.
+ * @param question The user's question.
+ */
+export function describeProduct(product: Product, question: string): string {
+    switch (detectAspect(question)) {
+        case 'price': return describePrice(product);
+        case 'availability': return describeAvailability(product);
+        case 'variants': return describeVariants(product);
+        case 'specs': return describeSpecs(product, question);
+        default:
+            return `${product.description} ${describePrice(product)} Current availability: ${describeStock(product.stock)}.`;
+    }
+}
+
+// The outcome of matching a product name against the catalog
+export type ProductLookup =
+    | { kind: 'found'; product: Product; confidence: number }
+    | { kind: 'clarify'; answer: string }; // "Did you mean...?" or not found
+
+/**
+ * Matches a product name against the catalog (data/products.json), fuzzily by name or alias.
+ * A single confident match is 'found'; several close matches or no match produce a
+ * clarifying answer ("did you mean...?") instead.
+ * @param productName The name of the product extracted from the user's query (e.g., "Apex Pro Suite").
+ */
+export function lookupProduct(productName: string): ProductLookup {
+    const matches = findProducts(productName);
+    const [best, runnerUp] = matches;
+    console.log(`[Catalog] "${productName}" -> ${matches.slice(0, 3).map(m => `${m.product.sku} (${m.confidence.toFixed(2)})`).join(', ') || 'no match'}`);
+
+    if (!best) {
+        const examples = loadProducts().slice(0, 3).map(product => `'${product.name}'`).join(', ');
+        return {
+            kind: 'clarify',
+            answer: `I'm sorry, I couldn't find specific details for a product named "${productName}". Could you please check the spelling or ask about a product such as ${examples}?`,
+        };
+    }
+
+    // An exact name or alias match is never ambiguous ("Monitor X" vs "Monitor X2")
+    const ambiguous = best.confidence < 1 && runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN;
+    if (ambiguous || best.confidence < CONFIDENT_MATCH) {
+        const candidates = matches
+            .filter(match => best.confidence - match.confidence < AMBIGUITY_MARGIN || match === best)
+            .slice(0, 3)
+            .map(match => match.product.name);
+        return {
+            kind: 'clarify',
+            answer: candidates.length > 1
+                ? `Did you mean ${candidates.slice(0, -1).join(', ')} or ${candidates[candidates.length - 1]}?`
+                : `Did you mean ${candidates[0]}?`,
+        };
+    }
+
+    return { kind: 'found', product: best.product, confidence: best.confidence };
 }
@@ -1,140 +1,178 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { queryPinecone } from "./vectorStores/pineconeStore.js";
-import { getOrderStatus } from "./orderStub.js";
-import { getProductInfo } from "./productInfo.js";
-
-// Initialize Gemini Client
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY; 
-if (!GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY is not set. Cannot run intent detection or generation.");
+import { classifyIntent, escalate, intentRegistry, type BotResponse, type SlotValue, type StreamHandlers } from "./intents/index.js";
+import { isStronglyNegative, noAnswerLimitReached } from "./escalation.js";
+import { createSession, getClientSession, sessionStore, type Session } from "./sessionStore.js";
+import { transcriptStore } from "./transcriptStore.js";
+import { DependencyError, type Degradation, type DegradationKind } from "./resilience.js";
+import { checkInput, recordGuardrailTrigger, refusalFor } from "./guardrails.js";
+
+export type { BotResponse, StreamHandlers } from "./intents/index.js";
+
+// How a query was routed, filled in by processQuery for the transcript
+export interface QueryTrace {
+    standaloneQuery?: string;
+    slots: Record<string, SlotValue | undefined>;
+    classificationMs?: number;
+    handlerMs?: number;
+    error?: string;
 }
-// Note: We initialize the AI client here to be used by determineIntent
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
-    
-// Define the structure for the API response and EXPORT IT
-export type BotResponse = {
-    answer: string;
-    intent: 'General' | 'RAG' | 'Order_Status' | 'Product_Info';
+
+// Options for processing a single query
+export interface QueryOptions extends StreamHandlers {
+    session?: Session; // The conversation so far; its turns are used as context
+    trace?: QueryTrace; // Receives routing details and stage timings, if given
+}
+
+// What each external service does, in words the user understands
+const SERVICE_DESCRIPTIONS: Record<string, string> = {
+    'gemini-embeddings': 'our knowledge base search',
+    'pinecone': 'our knowledge base search',
+    'gemini': 'the service that writes my answers',
+    'chat-api': 'the service that writes my answers',
+};
+
+// An honest explanation per kind of failure; {service} is replaced with the service's description
+const DEGRADATION_MESSAGES: Record<DegradationKind, string> = {
+    rate_limited: "I'm sorry, {service} is handling more requests than it can right now, so I couldn't answer that. Please try again in a minute, or ask to talk to a person.",
+    timeout: "I'm sorry, {service} is responding too slowly right now, so I couldn't get you an answer in time. Please try again in a moment.",
+    unavailable: "I'm sorry, {service} is temporarily unavailable, so I can't answer that right now. Please try again in a few minutes, or ask to talk to a person.",
+    circuit_open: "I'm sorry, {service} is temporarily unavailable, so I can't answer that right now. Please try again in a few minutes, or ask to talk to a person.",
+    rejected: "I'm sorry, I couldn't process that request. Could you rephrase it, or ask to talk to a person?",
 };
 
 /**
- * Uses a small, fast model to determine the user's intent.
+ * Builds the answer for a query that failed because an external service did.
+ */
+function degradedResponse(degradation: Degradation, handlers: StreamHandlers): BotResponse {
+    const service = SERVICE_DESCRIPTIONS[degradation.service] ?? 'one of our services';
+    const answer = DEGRADATION_MESSAGES[degradation.kind].replace('{service}', service);
+    handlers.onDelta?.(answer);
+    return { answer, intent: 'General', sources: [], degradation };
+}
+
+/**
+ * Main function to process the user query, route the intent, and return the final answer.
+ * Intents are declared in the intent registry (see intents/index.ts); this router only continues
+ * an active dialog, classifies the query and dispatches it to the matching intent's handler.
  * @param query The user's question.
- * @returns The determined intent and any extracted details (like an order ID or product name).
+ * @param options The session providing conversation history, and optional streaming callbacks;
+ *   answers that are not generated incrementally are delivered as a single delta.
+ * @returns The final response object. If an external service failed, the answer says which kind of
+ *   failure it was (see resilience.ts) instead of a generic error.
  */
-async function determineIntent(query: string): Promise<{ intent: 'RAG' | 'Order_Status' | 'Product_Info', details: string }> {
-    const prompt = `Analyze the following user query and classify the intent.
-    
-    1. If the user is asking about an **order status**, tracking, or has mentioned a specific order ID (which usually contains letters and numbers, like 'ABC12345'), the intent is 'Order_Status'.
-    2. If the user is asking specifically about **product features, specifications, availability, or pricing of a product**, the intent is 'Product_Info'.
-    3. For all other questions (FAQs, policy inquiries, general chat), the intent is 'RAG'.
-    
-    If the intent is 'Order_Status', extract the 5-8 character order ID. If no order ID is found, use 'None'.
-    If the intent is 'Product_Info', extract the main product name (e.g., "Pro Suite", "Monitor X"). If no specific product is mentioned, use 'General'.
-    
-    User Query: "${query}"
-    
-    Respond STRICTLY in JSON format:
-    {"intent": "RAG" | "Order_Status" | "Product_Info", "details": "ExtractedID/ProductName | None | General"}`;
+export async function processQuery(query: string, options: QueryOptions = {}): Promise<BotResponse> {
+    const { session, trace, ...handlers } = options;
+    const history = session?.turns ?? [];
 
     try {
-        // Using gemini-2.5-flash for fast and accurate structured intent routing
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT, 
-                    properties: {
-                        intent: { type: Type.STRING, enum: ["RAG", "Order_Status", "Product_Info"] }, 
-                        details: { type: Type.STRING }
-                    },
-                },
-            },
-        });
+        // --- Input guard: refuse over-long queries and attempts to rewrite the assistant's instructions ---
+        const blocked = checkInput(query);
+        if (blocked) {
+            recordGuardrailTrigger(blocked, query);
+            const answer = refusalFor(blocked);
+            handlers.onDelta?.(answer);
+            return { answer, intent: 'General', sources: [], guardrail: blocked };
+        }
 
-        const jsonText = response.text;
-        if (!jsonText) {
-            throw new Error("Gemini API returned no text content for intent detection.");
+        // --- Escalation policy: hand strongly negative messages straight to a person ---
+        if (isStronglyNegative(query)) {
+            const response = await escalate({ query, slots: {}, session, history, handlers }, 'negative_sentiment');
+            return { ...response, classifier: 'escalation_policy' };
         }
-        
-        const result = JSON.parse(jsonText);
-        const extractedDetails = result.details || result.orderId || '';
 
-        console.log(`[Intent Detection] Intent: ${result.intent}, Details: ${extractedDetails}`);
+        // --- Active dialog: the previous turn asked the user for something (e.g. an order number) ---
+        if (session?.dialog) {
+            const owner = intentRegistry.get(session.dialog.intent);
+            const dialogStart = Date.now();
+            const response = owner?.continueDialog
+                ? await owner.continueDialog({ query, session, history, handlers })
+                : null;
+            if (response) {
+                if (trace) trace.handlerMs = Date.now() - dialogStart;
+                return { ...response, classifier: 'dialog' };
+            }
+            // The user changed the subject (or the dialog is unknown): route the new question normally
+            session.dialog = undefined;
+        }
 
-        return { 
-            intent: result.intent, 
-            details: extractedDetails
-        };
+        // --- Classify and dispatch to the intent's handler ---
+        const classificationStart = Date.now();
+        const { intent, slots, standaloneQuery, classifier } = await classifyIntent(intentRegistry, query, history);
+        const definition = intentRegistry.get(intent) ?? intentRegistry.fallback();
+        const context = { query, standaloneQuery, slots, session, history, handlers };
+        const handlerStart = Date.now();
+        if (trace) Object.assign(trace, { standaloneQuery, slots, classificationMs: handlerStart - classificationStart });
+        const response = await definition.handle(context);
+        if (trace) trace.handlerMs = Date.now() - handlerStart;
+
+        // --- Escalation policy: after repeated "no answer" outcomes, file a ticket instead of giving up again ---
+        if (response.outcome === 'no_answer' && noAnswerLimitReached(session)) {
+            const escalation = await escalate(context, 'repeated_no_answer', response.answer);
+            return { ...escalation, classifier: 'escalation_policy' };
+        }
+        return { ...response, classifier };
 
     } catch (error) {
-        console.error("❌ Error during intent detection. Falling back to RAG:", error);
-        // Default to RAG if intent detection fails
-        return { intent: 'RAG', details: '' };
+        if (trace) trace.error = error instanceof Error ? error.message : String(error);
+        if (error instanceof DependencyError) {
+            console.error(`❌ ${error.service} failed (${error.kind}) in processQuery:`, error.message);
+            return degradedResponse(error.degradation, handlers);
+        }
+        console.error("❌ Unhandled Error in processQuery:", error);
+        return {
+            answer: "An unexpected error occurred while processing your request. Please try again later.",
+            intent: 'General',
+            sources: []
+        };
     }
 }
 
+
 /**
- * Main function to process the user query, route the intent, and return the final answer.
+ * Processes one turn of a conversation: loads (or starts) the session, answers the query with
+ * the session's history as context, records both turns, saves the session and appends the
+ * turn to the transcript store.
+ * @param clientId The authenticated API client; sessions are only continued by the client that started them.
+ * @param sessionId The client's session id, if it has one. Unknown, expired or other clients' ids start a new session.
  * @param query The user's question.
- * @returns The final response object.
+ * @param handlers Optional streaming callbacks.
+ * @returns The final response, including the session id to use for the next turn.
  */
-export async function processQuery(query: string): Promise<BotResponse> {
-    try {
-        // Renamed orderId to generic details for holding either ID or Product Name
-        const { intent, details } = await determineIntent(query);
-
-        // --- Intent: Order Status (API Call) ---
-        // Determine the ID to use: only if the details are truthy and not 'None'.
-        const orderId = (details && details !== 'None') ? details : null;
-
-        if (intent === 'Order_Status' && orderId) {
-            const answer = getOrderStatus(orderId);
-            return {
-                answer,
-                intent: 'Order_Status'
-            };
-        } 
-        
-        // --- NEW INTENT: Product Info (API Call) ---
-        // If the intent is Product_Info, and the details are NOT explicitly 'General' (our RAG fallback value for product),
-        // we route it to the dedicated function.
-        if (intent === 'Product_Info' && details !== 'General') {
-             // Determine what to pass to the ProductInfo stub. 
-             // If details extraction failed (details is empty or 'None'), pass the entire query for the stub to try and parse.
-             const productIdentifier = (details && details !== 'None') ? details : query; 
-             
-            const answer = getProductInfo(productIdentifier);
-            return {
-                answer,
-                intent: 'Product_Info'
-            };
-        }
-        
-        // --- Intent: RAG (Default) ---
-        // This handles RAG, or fallbacks from failed Order_Status/Product_Info (e.g., missing ID, non-specific product query, or 'General' product query)
-        if (intent === 'RAG' || intent === 'Order_Status' || intent === 'Product_Info') { 
-            // queryPinecone returns the synthesized answer as the first element of the tuple
-            const [ragAnswer] = await queryPinecone(query);
-            return {
-                answer: ragAnswer,
-                intent: 'RAG'
-            };
-        } else {
-            // General fallback
-            return {
-                answer: "I'm sorry, I couldn't understand your request. Could you please rephrase it?",
-                intent: 'General'
-            };
-        }
+export async function processConversationTurn(clientId: string, sessionId: string | undefined, query: string, handlers: StreamHandlers = {}): Promise<BotResponse> {
+    const session = (sessionId && await getClientSession(sessionId, clientId)) || createSession(clientId);
 
+    const start = Date.now();
+    const trace: QueryTrace = { slots: {} };
+    const response = await processQuery(query, { ...handlers, session, trace });
+
+    const now = Date.now();
+    session.turns.push(
+        { role: 'user', text: query, timestamp: now },
+        { role: 'assistant', text: response.answer, intent: response.intent, outcome: response.outcome, timestamp: now },
+    );
+    await sessionStore.save(session);
+
+    try {
+        await transcriptStore.append({
+            sessionId: session.id,
+            timestamp: new Date(start).toISOString(),
+            query,
+            ...(trace.standaloneQuery && trace.standaloneQuery !== query ? { standaloneQuery: trace.standaloneQuery } : {}),
+            intent: response.intent,
+            classifier: response.classifier,
+            slots: trace.slots,
+            outcome: response.outcome,
+            retrieved: response.sources.map(({ doc_id, score }) => ({ doc_id, score })),
+            ticketReference: response.ticketReference,
+            degradation: response.degradation,
+            guardrail: response.guardrail,
+            answer: response.answer,
+            latency: { totalMs: now - start, classificationMs: trace.classificationMs, handlerMs: trace.handlerMs },
+            error: trace.error,
+        });
     } catch (error) {
-        console.error("❌ Unhandled Error in processQuery:", error);
-        return {
-            answer: "An unexpected error occurred while processing your request. Please try again later.",
-            intent: 'General'
-        };
+        // A transcript failure must never cost the user their answer
+        console.error("❌ [Transcripts] Could not persist the turn:", error);
     }
+
+    return { ...response, sessionId: session.id };
 }
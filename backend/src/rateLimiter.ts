@@ -0,0 +1,88 @@
+// --- CONFIGURATION ---
+// RATE_LIMIT_PER_MINUTE     Queries per minute allowed per API client (key or token subject).
+// RATE_LIMIT_BURST          Queries a client may send at once before the per-minute rate applies.
+// IP_RATE_LIMIT_PER_MINUTE  Queries per minute allowed per IP address, across all clients.
+// IP_RATE_LIMIT_BURST       Burst allowance per IP address.
+// A value of 0 for a per-minute limit disables that limit.
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 60);
+const RATE_LIMIT_BURST = Number(process.env.RATE_LIMIT_BURST || 20);
+const IP_RATE_LIMIT_PER_MINUTE = Number(process.env.IP_RATE_LIMIT_PER_MINUTE ?? 20);
+const IP_RATE_LIMIT_BURST = Number(process.env.IP_RATE_LIMIT_BURST || 5);
+
+// Buckets that have refilled completely carry no state worth keeping; they are dropped this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// The outcome of asking a limiter for a token
+export interface RateLimitDecision {
+    allowed: boolean;
+    retryAfterMs: number; // How long until a token is available; 0 when allowed
+}
+
+export interface RateLimiter {
+    /** Name used in logs (e.g. "client"). */
+    readonly name: string;
+
+    /** Takes one token from the key's bucket if there is one. */
+    take(key: string): RateLimitDecision;
+
+    /** Puts back a token taken by take(), e.g. when another limiter rejected the same request. */
+    refund(key: string): void;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Creates a token-bucket limiter: each key's bucket holds up to `burst` tokens and refills at
+ * `perMinute` tokens a minute, so a client can send a short burst but not sustain more than the rate.
+ * @param name Name used in logs.
+ * @param perMinute Refill rate. 0 disables the limiter.
+ * @param burst Bucket capacity.
+ */
+export function createRateLimiter(name: string, perMinute: number, burst: number): RateLimiter {
+    const buckets = new Map<string, Bucket>();
+    const capacity = Math.max(1, burst);
+    const refillPerMs = perMinute / 60_000;
+
+    const refill = (key: string, now: number): Bucket => {
+        const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        buckets.set(key, bucket);
+        return bucket;
+    };
+
+    if (perMinute > 0) {
+        setInterval(() => {
+            const now = Date.now();
+            for (const [key, bucket] of buckets) {
+                if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= capacity) buckets.delete(key);
+            }
+        }, SWEEP_INTERVAL_MS).unref();
+    }
+
+    return {
+        name,
+
+        take(key) {
+            if (perMinute <= 0) return { allowed: true, retryAfterMs: 0 };
+            const bucket = refill(key, Date.now());
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return { allowed: true, retryAfterMs: 0 };
+            }
+            return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+        },
+
+        refund(key) {
+            if (perMinute <= 0) return;
+            const bucket = refill(key, Date.now());
+            bucket.tokens = Math.min(capacity, bucket.tokens + 1);
+        },
+    };
+}
+
+export const clientRateLimiter = createRateLimiter('client', RATE_LIMIT_PER_MINUTE, RATE_LIMIT_BURST);
+export const ipRateLimiter = createRateLimiter('IP', IP_RATE_LIMIT_PER_MINUTE, IP_RATE_LIMIT_BURST);
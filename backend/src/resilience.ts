@@ -0,0 +1,334 @@
+// --- CONFIGURATION ---
+// Every call to an external service (Gemini, Pinecone, an OpenAI-compatible server) goes through
+// a resilient caller: a per-call timeout, retries with exponential backoff and jitter for transient
+// failures, and a circuit breaker per service that stops calling a failing service for a while and
+// then lets one trial call through (half-open) to test whether it recovered.
+// EXTERNAL_CALL_TIMEOUT_MS        Per-attempt timeout (default 10000; some services set their own).
+// EXTERNAL_CALL_RETRIES           Retries after the first attempt for transient failures.
+// EXTERNAL_CALL_BACKOFF_MS        Base delay before the first retry; doubles on every retry.
+// CIRCUIT_FAILURE_THRESHOLD       Consecutive failed calls (after retries) that open a service's circuit.
+// CIRCUIT_RESET_SECONDS           How long an open circuit rejects calls before allowing a trial call.
+const EXTERNAL_CALL_TIMEOUT_MS = Number(process.env.EXTERNAL_CALL_TIMEOUT_MS || 10000);
+const EXTERNAL_CALL_RETRIES = Number(process.env.EXTERNAL_CALL_RETRIES ?? 2);
+const EXTERNAL_CALL_BACKOFF_MS = Number(process.env.EXTERNAL_CALL_BACKOFF_MS || 250);
+const CIRCUIT_FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD || 5);
+const CIRCUIT_RESET_MS = Number(process.env.CIRCUIT_RESET_SECONDS || 30) * 1000;
+
+// Backoff never waits longer than this between attempts, whatever Retry-After says
+const MAX_BACKOFF_MS = 8000;
+
+// Why a dependency could not be used:
+// - 'timeout': it did not answer within the timeout
+// - 'rate_limited': it refused the call because of a rate limit or exhausted quota (HTTP 429)
+// - 'unavailable': it failed (network error, HTTP 5xx) on every attempt
+// - 'circuit_open': it failed repeatedly, so it is not being called until the reset period ends
+// - 'rejected': it refused the request itself (other HTTP 4xx), so retrying would not help
+export type DegradationKind = 'timeout' | 'rate_limited' | 'unavailable' | 'circuit_open' | 'rejected';
+
+// A typed failure of an external service, carried through to the user-facing answer
+export interface Degradation {
+    service: string; // e.g. "gemini", "pinecone"
+    kind: DegradationKind;
+}
+
+/**
+ * An external call that failed after the resilience policy gave up.
+ * The original error is kept as `cause` for logs.
+ */
+export class DependencyError extends Error {
+    readonly service: string;
+    readonly kind: DegradationKind;
+
+    constructor(service: string, kind: DegradationKind, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'DependencyError';
+        this.service = service;
+        this.kind = kind;
+    }
+
+    get degradation(): Degradation {
+        return { service: this.service, kind: this.kind };
+    }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ResiliencePolicy {
+    timeoutMs: number;
+    retries: number;
+    backoffMs: number;
+    failureThreshold: number;
+    resetMs: number;
+}
+
+export interface ResilientCaller {
+    /** The service's name, as used in logs and degradations. */
+    readonly service: string;
+
+    /**
+     * Runs one call under the policy.
+     * @param operation What is being done, for logs (e.g. "embedContent").
+     * @param run The call. It receives an AbortSignal that fires when the attempt times out; pass it to the client if it supports one.
+     * @throws DependencyError when the call timed out, was rate limited or failed on every attempt, or the circuit is open.
+     */
+    call<T>(operation: string, run: (signal: AbortSignal) => Promise<T>): Promise<T>;
+
+    /**
+     * Opens a stream under the policy and reads it. Only opening is retried: chunks already passed on
+     * cannot be taken back. While reading, each chunk must arrive within the timeout.
+     * @param operation What is being done, for logs (e.g. "generateContentStream").
+     * @param open Opens the stream. Its AbortSignal also fires when reading stops; pass it to the client.
+     * @throws DependencyError when opening fails as in call(), or the stream stalls ('timeout') or breaks off ('unavailable').
+     */
+    stream<T>(operation: string, open: (signal: AbortSignal) => Promise<AsyncIterable<T>>): AsyncGenerator<T>;
+
+    /** The circuit's current state. */
+    state(): CircuitState;
+}
+
+/**
+ * The default policy, from the environment. Services can override single settings (e.g. a longer timeout for local models).
+ */
+export function getResiliencePolicy(overrides: Partial<ResiliencePolicy> = {}): ResiliencePolicy {
+    return {
+        timeoutMs: EXTERNAL_CALL_TIMEOUT_MS,
+        retries: Math.max(0, EXTERNAL_CALL_RETRIES),
+        backoffMs: EXTERNAL_CALL_BACKOFF_MS,
+        failureThreshold: Math.max(1, CIRCUIT_FAILURE_THRESHOLD),
+        resetMs: CIRCUIT_RESET_MS,
+        ...overrides,
+    };
+}
+
+/**
+ * Reads a property of an error (or of an object nested in it) whose shape is not known.
+ */
+function fieldOf(value: unknown, key: string): unknown {
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * The message of an error of any shape, or '' if it has none.
+ */
+function messageOf(error: unknown): string {
+    const message = fieldOf(error, 'message');
+    return typeof message === 'string' ? message : '';
+}
+
+/**
+ * Reads the HTTP status from the error shapes of the clients in use (@google/genai, Pinecone, axios).
+ */
+function statusOf(error: unknown): number | undefined {
+    const status = [error, fieldOf(error, 'response'), fieldOf(error, 'cause')]
+        .map(source => fieldOf(source, 'status'))
+        .find(candidate => typeof candidate === 'number');
+    if (typeof status === 'number') return status;
+    const match = messageOf(error).match(/\b(?:status(?: code)?|got status:?)\s*(\d{3})\b/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Classifies a failed attempt: whether to retry it, and how to report it if it is the last one.
+ */
+function classifyFailure(error: unknown): { kind: DegradationKind; retryable: boolean } {
+    const status = statusOf(error);
+    const code = fieldOf(error, 'code');
+    if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(messageOf(error))) {
+        return { kind: 'rate_limited', retryable: true };
+    }
+    if (status !== undefined && status >= 400 && status < 500 && status !== 408) {
+        return { kind: 'rejected', retryable: false };
+    }
+    if (status === 408 || code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+        return { kind: 'timeout', retryable: true };
+    }
+    return { kind: 'unavailable', retryable: true };
+}
+
+/**
+ * Reads a Retry-After hint (seconds) from an HTTP error, if the service sent one:
+ * axios keeps headers as a plain object on the response, fetch-based clients as Headers on the error.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+    const headers = fieldOf(error, 'headers');
+    const header = fieldOf(fieldOf(fieldOf(error, 'response'), 'headers'), 'retry-after')
+        ?? (headers instanceof Headers ? headers.get('retry-after') : undefined);
+    const seconds = Number(header);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and base * 2^attempt,
+ * so clients that failed together do not retry together.
+ */
+function backoffDelay(policy: ResiliencePolicy, attempt: number, error: unknown): number {
+    const hinted = retryAfterMs(error);
+    const delay = hinted ?? Math.random() * policy.backoffMs * 2 ** attempt;
+    return Math.min(MAX_BACKOFF_MS, delay);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs one attempt, rejecting with a timeout error (and aborting the call) after timeoutMs.
+ */
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(Object.assign(new Error(`Timed out after ${timeoutMs} ms`), { code: 'ETIMEDOUT' }));
+        }, timeoutMs);
+    });
+    try {
+        return await Promise.race([run(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Reads a stream chunk by chunk, failing when the next chunk takes longer than idleMs or the stream
+ * breaks off. The request is aborted once reading stops, however it stops.
+ */
+async function* readWithIdleTimeout<T>(service: string, operation: string, chunks: AsyncIterable<T>, idleMs: number, reading: AbortController): AsyncGenerator<T> {
+    const iterator = chunks[Symbol.asyncIterator]();
+    try {
+        while (true) {
+            const pending = iterator.next();
+            pending.catch(() => undefined); // Rejects once aborted, after a timeout has already been reported
+            let timer: NodeJS.Timeout | undefined;
+            const idle = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new DependencyError(service, 'timeout', `${service} ${operation} sent nothing for ${idleMs} ms.`)), idleMs);
+            });
+            let next: IteratorResult<T>;
+            try {
+                next = await Promise.race([pending, idle]);
+            } catch (error) {
+                if (error instanceof DependencyError) throw error;
+                const message = error instanceof Error ? error.message : String(error);
+                throw new DependencyError(service, 'unavailable', `${service} ${operation} broke off: ${message}`, error);
+            } finally {
+                clearTimeout(timer);
+            }
+            if (next.done) return;
+            yield next.value;
+        }
+    } finally {
+        reading.abort();
+    }
+}
+
+/**
+ * Creates a resilient caller for one external service. Create one per service and share it,
+ * so every call to the service feeds the same circuit breaker.
+ * 1. While the circuit is open, calls fail immediately with 'circuit_open' until the reset period ends;
+ *    then one trial call is let through (half-open). Its success closes the circuit, its failure re-opens it.
+ * 2. Each attempt is limited to timeoutMs.
+ * 3. Timeouts, rate limits, network errors and 5xx responses are retried with exponential backoff and
+ *    jitter (honouring Retry-After); other 4xx responses are not, and do not count against the circuit.
+ * 4. A stream is opened like a call, then every chunk must arrive within timeoutMs.
+ * @param service The service's name (e.g. "gemini").
+ * @param policy Timeouts, retries and circuit settings.
+ */
+export function createResilientCaller(service: string, policy: ResiliencePolicy = getResiliencePolicy()): ResilientCaller {
+    let state: CircuitState = 'closed';
+    let consecutiveFailures = 0;
+    let openedAt = 0;
+    let trialInFlight = false;
+
+    const open = () => {
+        if (state !== 'open') console.warn(`🚨 [Resilience] ${service} circuit opened after ${consecutiveFailures} consecutive failures. Retrying in ${policy.resetMs / 1000}s.`);
+        state = 'open';
+        openedAt = Date.now();
+    };
+
+    const recordSuccess = () => {
+        if (state !== 'closed') console.log(`✅ [Resilience] ${service} recovered. Circuit closed.`);
+        state = 'closed';
+        consecutiveFailures = 0;
+    };
+
+    return {
+        service,
+
+        async call<T>(operation: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+            if (state === 'open' && Date.now() - openedAt >= policy.resetMs) {
+                state = 'half_open';
+            }
+            if (state === 'open' || (state === 'half_open' && trialInFlight)) {
+                throw new DependencyError(service, 'circuit_open', `${service} is unavailable (circuit open); ${operation} was not attempted.`);
+            }
+
+            const isTrial = state === 'half_open';
+            if (isTrial) {
+                trialInFlight = true;
+                console.log(`[Resilience] ${service} circuit half-open. Trying ${operation}...`);
+            }
+
+            try {
+                // A trial call gets a single attempt: the circuit re-opens at once if the service is still down
+                const attempts = isTrial ? 1 : policy.retries + 1;
+                for (let attempt = 0; ; attempt++) {
+                    try {
+                        const result = await withTimeout(run, policy.timeoutMs);
+                        recordSuccess();
+                        return result;
+                    } catch (error) {
+                        const { kind, retryable } = classifyFailure(error);
+                        const message = error instanceof Error ? error.message : String(error);
+                        if (!retryable) {
+                            throw new DependencyError(service, kind, `${service} ${operation} was rejected: ${message}`, error);
+                        }
+                        if (attempt + 1 >= attempts) {
+                            consecutiveFailures++;
+                            if (isTrial || consecutiveFailures >= policy.failureThreshold) open();
+                            throw new DependencyError(service, kind, `${service} ${operation} failed after ${attempt + 1} attempt(s): ${message}`, error);
+                        }
+                        const delay = backoffDelay(policy, attempt, error);
+                        console.warn(`[Resilience] ${service} ${operation} failed (${kind}: ${message}). Retry ${attempt + 1}/${attempts - 1} in ${Math.round(delay)} ms.`);
+                        await sleep(delay);
+                    }
+                }
+            } finally {
+                if (isTrial) trialInFlight = false;
+            }
+        },
+
+        async *stream<T>(operation: string, open: (signal: AbortSignal) => Promise<AsyncIterable<T>>): AsyncGenerator<T> {
+            const reading = new AbortController();
+            const chunks = await this.call(operation, signal => open(AbortSignal.any([signal, reading.signal])));
+            yield* readWithIdleTimeout(service, operation, chunks, policy.timeoutMs, reading);
+        },
+
+        state() {
+            if (state === 'open' && Date.now() - openedAt >= policy.resetMs) return 'half_open';
+            return state;
+        },
+    };
+}
+
+// One caller (and so one circuit breaker) per service, shared by every client of that service
+const callers = new Map<string, ResilientCaller>();
+
+/**
+ * Returns the shared resilient caller for a service, creating it on first use.
+ * @param service The service's name (e.g. "pinecone").
+ * @param overrides Policy settings that differ from the defaults; only used when the caller is created.
+ */
+export function resilientCaller(service: string, overrides: Partial<ResiliencePolicy> = {}): ResilientCaller {
+    let caller = callers.get(service);
+    if (!caller) {
+        caller = createResilientCaller(service, getResiliencePolicy(overrides));
+        callers.set(service, caller);
+    }
+    return caller;
+}
+
+/**
+ * The circuit state of every service called so far, by name.
+ */
+export function circuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries([...callers.values()].map(caller => [caller.service, caller.state()]));
+}
@@ -0,0 +1,139 @@
+import { tokenize } from './embedders/localEmbedder.js';
+import type { Embedder } from './embedders/index.js';
+import type { MetadataFilter, VectorMatch, VectorStore } from './vectorStores/index.js';
+
+// --- CONFIGURATION ---
+// RAG_TOP_K        Candidates fetched from the vector store.
+// RAG_TOP_N        Matches passed on to answer generation.
+// RAG_MIN_SCORE    Minimum vector similarity; defaults to the embedder's own threshold.
+// RAG_DEDUPE       Keep only the best match per doc_id, or per section for document chunks ('false' to disable).
+// RAG_RERANK       'bm25' to rerank candidates lexically over question/answer, 'none' to skip.
+// RAG_RERANK_WEIGHT Share of the final score given to the BM25 score (0-1).
+export interface RetrievalConfig {
+    topK: number;
+    topN: number;
+    minScore: number;
+    dedupeByDocId: boolean;
+    rerank: 'none' | 'bm25';
+    rerankWeight: number;
+}
+
+// A match after thresholding and reranking
+export interface RankedMatch extends VectorMatch {
+    vectorScore: number; // Raw similarity from the vector store
+    lexicalScore: number; // Normalized BM25 score in [0, 1]; 0 when reranking is off
+}
+
+export type RetrievalResult =
+    | { outcome: 'answered'; matches: RankedMatch[] }
+    | { outcome: 'no_answer'; matches: []; bestScore: number | null };
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function readNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Reads the retrieval settings from the environment.
+ * @param embedder The active embedder, which supplies the default similarity threshold.
+ */
+export function getRetrievalConfig(embedder: Embedder): RetrievalConfig {
+    return {
+        topK: readNumber('RAG_TOP_K', 8),
+        topN: readNumber('RAG_TOP_N', 3),
+        minScore: readNumber('RAG_MIN_SCORE', embedder.minRelevanceScore),
+        dedupeByDocId: process.env.RAG_DEDUPE !== 'false',
+        rerank: process.env.RAG_RERANK === 'none' ? 'none' : 'bm25',
+        rerankWeight: Math.min(1, Math.max(0, readNumber('RAG_RERANK_WEIGHT', 0.3))),
+    };
+}
+
+/**
+ * Scores each candidate's question and answer text against the query with BM25.
+ * Document frequencies are taken over the candidate set itself.
+ * @returns One score per candidate, normalized so the best candidate scores 1.
+ */
+function bm25Scores(query: string, candidates: VectorMatch[]): number[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documents = candidates.map(match => tokenize(`${match.metadata.question} ${match.metadata.answer}`));
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+
+    const documentFrequency = new Map<string, number>();
+    for (const doc of documents) {
+        for (const term of new Set(doc)) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const scores = documents.map(doc => {
+        let score = 0;
+        for (const term of queryTerms) {
+            const termFrequency = doc.filter(token => token === term).length;
+            if (termFrequency === 0) continue;
+            const df = documentFrequency.get(term) || 0;
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            score += idf * (termFrequency * (BM25_K1 + 1))
+                / (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (averageLength || 1)));
+        }
+        return score;
+    });
+
+    const best = Math.max(0, ...scores);
+    return scores.map(score => (best > 0 ? score / best : 0));
+}
+
+/**
+ * Retrieves the context for a query:
+ * 1. Fetches the top-K nearest records from the vector store.
+ * 2. Drops matches below the minimum similarity score.
+ * 3. Optionally reranks the survivors by blending in a BM25 score over question/answer.
+ * 4. Optionally keeps only the best match per doc_id (per section of a chunked document, so overlapping
+ *    chunks collapse but other sections of a long document can still be retrieved).
+ * 5. Returns the top-N, or an explicit 'no_answer' outcome when nothing is relevant.
+ * @param query The user's question.
+ * @param embedder The embedder used for the query (must match the store).
+ * @param vectorStore The store to search.
+ * @param config The retrieval settings.
+ * @param filter Optional metadata filter, e.g. to search only product records.
+ */
+export async function retrieve(query: string, embedder: Embedder, vectorStore: VectorStore, config: RetrievalConfig, filter?: MetadataFilter): Promise<RetrievalResult> {
+    const queryEmbedding = await embedder.embed(query);
+    const candidates = await vectorStore.query(queryEmbedding, config.topK, filter);
+    const bestScore = candidates.length > 0 ? candidates[0].score : null;
+
+    const relevant = candidates.filter(match => match.score >= config.minScore);
+    if (relevant.length === 0) {
+        console.log(`[Retrieval] No match cleared the minimum score ${config.minScore} (best: ${bestScore?.toFixed(3) ?? 'none'}).`);
+        return { outcome: 'no_answer', matches: [], bestScore };
+    }
+
+    const lexicalScores = config.rerank === 'bm25' ? bm25Scores(query, relevant) : relevant.map(() => 0);
+    const lexicalWeight = config.rerank === 'bm25' ? config.rerankWeight : 0;
+
+    let ranked: RankedMatch[] = relevant
+        .map((match, i) => ({
+            ...match,
+            vectorScore: match.score,
+            lexicalScore: lexicalScores[i],
+            score: (1 - lexicalWeight) * match.score + lexicalWeight * lexicalScores[i],
+        }))
+        .sort((a, b) => b.score - a.score);
+
+    if (config.dedupeByDocId) {
+        const seen = new Set<string>();
+        ranked = ranked.filter(match => {
+            const key = match.metadata.section_title !== undefined ? `${match.metadata.doc_id}#${match.metadata.section_title}` : match.metadata.doc_id;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    const matches = ranked.slice(0, config.topN);
+    console.log(`[Retrieval] ${candidates.length} candidates, ${relevant.length} above ${config.minScore}, kept: ${matches.map(m => `${m.metadata.doc_id}#${m.id} (${m.score.toFixed(3)})`).join(', ')}`);
+    return { outcome: 'answered', matches };
+}
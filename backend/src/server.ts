@@ -1,34 +1,112 @@
 import 'dotenv/config';
-import express, { type Request, type Response } from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
-import { processQuery } from './rag.js'; 
+import { processConversationTurn } from './rag.js'; 
+import { getClientSession, sessionStore } from './sessionStore.js';
+import { transcriptStore } from './transcriptStore.js';
+import { cacheStats } from './cache.js';
+import { circuitStates } from './resilience.js';
+import { MAX_QUERY_LENGTH } from './guardrails.js';
+import { CLIENT_AUTH_REQUIRED, authenticateClient, secretsMatch, type ApiClient } from './clientAuth.js';
+import { clientRateLimiter, ipRateLimiter } from './rateLimiter.js';
 import type { BotResponse } from './rag.js';
 
 // --- Configuration ---
 const app = express();
 const port = process.env.PORT || 3000; 
+// ADMIN_API_TOKEN   Bearer token for the /admin API. The admin API is disabled when unset.
+// CORS_ORIGINS      Comma-separated origins allowed to call the API from a browser, or '*' for any
+//                   (default http://localhost:5173, the Vite dev server).
+// TRUST_PROXY       Number of proxies in front of the server (e.g. 1 on Render), so per-IP limits see the client's address.
+// Queries longer than MAX_QUERY_LENGTH (see guardrails.ts) are rejected with 413 before they reach the pipeline.
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()).filter(Boolean);
+const MAX_BODY_SIZE = '16kb';
+
+// Error body of every rejected request; `code` is stable, `error` is for humans
+interface ApiError {
+    error: string;
+    code?: 'invalid_request' | 'unauthorized' | 'query_too_long' | 'payload_too_large' | 'rate_limited' | 'internal_error';
+    retryAfterSeconds?: number; // With rate_limited
+    maxLength?: number; // With query_too_long
+}
 
 // Middleware setup
-app.use(cors());
-app.use(express.json());
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY));
+app.use(cors({ origin: CORS_ORIGINS.includes('*') ? '*' : CORS_ORIGINS }));
+app.use(express.json({ limit: MAX_BODY_SIZE }));
+
+// --- CLIENT ACCESS ---
+
+/**
+ * Rejects /api requests without a valid client API key or signed token (see clientAuth.ts),
+ * and records the client in res.locals.client.
+ */
+function requireClient(req: Request, res: Response, next: NextFunction) {
+    const client = authenticateClient(req);
+    if (!client) {
+        console.warn(`[Server] Rejected unauthenticated request to ${req.path} from ${req.ip}`);
+        return res.status(401).json({ error: 'A valid API key or client token is required.', code: 'unauthorized' } satisfies ApiError);
+    }
+    res.locals.client = client;
+    next();
+}
+
+/**
+ * Applies the per-IP and per-client token buckets to a query. Each query costs model calls,
+ * so both a single client and a single address are capped.
+ */
+function rateLimit(req: Request, res: Response, next: NextFunction) {
+    const client: ApiClient = res.locals.client;
+    const ip = req.ip ?? 'unknown';
+    let decision = ipRateLimiter.take(ip);
+    if (decision.allowed && client.method !== 'anonymous') {
+        decision = clientRateLimiter.take(client.id);
+        // The request is rejected, so it should not count against the address either
+        if (!decision.allowed) ipRateLimiter.refund(ip);
+    }
+    if (!decision.allowed) {
+        const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+        console.warn(`[Server] Rate limited ${client.id} at ${ip} (retry in ${retryAfterSeconds}s)`);
+        res.set('Retry-After', String(retryAfterSeconds));
+        return res.status(429).json({ error: 'Too many requests. Please wait a moment and try again.', code: 'rate_limited', retryAfterSeconds } satisfies ApiError);
+    }
+    next();
+}
+
+/**
+ * Validates the query text of a request.
+ * @returns The error to send, or null if the query is acceptable.
+ */
+function queryError(query: unknown): { status: number; body: ApiError } | null {
+    if (!query || typeof query !== 'string') {
+        return { status: 400, body: { error: 'Query parameter is required.', code: 'invalid_request' } };
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+        return { status: 413, body: { error: `The query is too long. Please keep it to ${MAX_QUERY_LENGTH} characters or fewer.`, code: 'query_too_long', maxLength: MAX_QUERY_LENGTH } };
+    }
+    return null;
+}
 
 
 /**
  * Main endpoint used by the frontend to process the user's query.
  * This route calls the processQuery router, which handles Intent Detection, 
  * RAG retrieval, or Order Status lookups.
+ * Body: { query: string, sessionId?: string }. The response carries the sessionId to send with the next query.
  */
-app.post('/api/query', async (req: Request, res: Response<BotResponse | { error: string }>) => {
-    const { query } = req.body;
+app.post('/api/query', requireClient, rateLimit, async (req: Request, res: Response<BotResponse | ApiError>) => {
+    const { query, sessionId } = req.body;
 
-    if (!query || typeof query !== 'string') {
-        return res.status(400).json({ error: 'Query parameter is required.' });
+    const invalid = queryError(query);
+    if (invalid) {
+        return res.status(invalid.status).json(invalid.body);
     }
     
-    console.log(`\n[Server] Received query: "${query}"`);
+    console.log(`\n[Server] Received query from ${res.locals.client.id}: "${query}"`);
 
     try {
-        const response: BotResponse = await processQuery(query);
+        const response: BotResponse = await processConversationTurn(res.locals.client.id, typeof sessionId === 'string' ? sessionId : undefined, query);
         console.log(`[Server] Response Intent: ${response.intent}`);
         return res.json(response); 
         
@@ -36,12 +114,161 @@ app.post('/api/query', async (req: Request, res: Response<BotResponse | { error:
         console.error(`[Server] Fatal error processing query:`, error);
         return res.status(500).json({ 
             error: "An unexpected internal server error occurred while processing your request.", 
+            code: 'internal_error',
         });
     }
 });
 
+/**
+ * Streaming variant of /api/query using Server-Sent Events, read with fetch.
+ * Body: { query: string, sessionId?: string }, as for /api/query, so the query never appears in a URL (and
+ * in proxy or access logs). Authentication, rate-limit and length errors are sent as JSON before the stream opens.
+ * Events, in order:
+ *   intent  {"intent": "..."}          once the query has been routed
+ *   delta   {"text": "..."}            one or more chunks of answer text
+ *   retract {}                         the text sent so far was blocked: discard it (and stop speaking it);
+ *                                      the deltas that follow replace it
+ *   sources {"sources": [...]}         citations for the answer
+ *   done    BotResponse                the complete response; its answer is authoritative
+ */
+app.post('/api/query/stream', requireClient, rateLimit, async (req: Request, res: Response) => {
+    const { query, sessionId } = req.body;
+
+    const invalid = queryError(query);
+    if (invalid) {
+        return res.status(invalid.status).json(invalid.body);
+    }
+
+    console.log(`\n[Server] Received streaming query from ${res.locals.client.id}: "${query}"`);
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    // Stop writing if the client goes away mid-answer (e.g. the user barged in with a new question).
+    // This watches the response: a POST request emits 'close' as soon as its body has been read.
+    let clientClosed = false;
+    res.on('close', () => { clientClosed = true; });
+
+    const send = (event: string, data: unknown) => {
+        if (clientClosed) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+        const response = await processConversationTurn(res.locals.client.id, typeof sessionId === 'string' ? sessionId : undefined, query, {
+            onIntent: intent => send('intent', { intent }),
+            onDelta: text => send('delta', { text }),
+            onRetract: () => send('retract', {}),
+        });
+        console.log(`[Server] Streamed Response Intent: ${response.intent}`);
+        send('sources', { sources: response.sources });
+        send('done', response);
+
+    } catch (error) {
+        console.error(`[Server] Fatal error processing streaming query:`, error);
+        send('done', {
+            answer: "An unexpected internal server error occurred while processing your request.",
+            intent: 'General',
+            sources: [],
+        } satisfies BotResponse);
+    }
+
+    res.end();
+});
+
+/**
+ * Forgets a conversation, e.g. when the user clears the chat. Only the client that started it may;
+ * another client's session is left alone, with the same 204 so its existence is not revealed.
+ */
+app.delete('/api/session/:sessionId', requireClient, async (req: Request, res: Response) => {
+    if (await getClientSession(req.params.sessionId, res.locals.client.id)) {
+        await sessionStore.delete(req.params.sessionId);
+        console.log(`[Server] Cleared session ${req.params.sessionId}`);
+    }
+    return res.status(204).end();
+});
+
+// --- ADMIN API ---
+
+/**
+ * Rejects admin requests without the bearer token from ADMIN_API_TOKEN.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!ADMIN_API_TOKEN) {
+        return res.status(503).json({ error: 'The admin API is disabled. Set ADMIN_API_TOKEN to enable it.' });
+    }
+    const token = req.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || !secretsMatch(token, ADMIN_API_TOKEN)) {
+        console.warn(`[Server] Rejected admin request to ${req.path}`);
+        return res.status(401).json({ error: 'A valid admin token is required.' });
+    }
+    next();
+}
+
+/**
+ * Lists conversations for review, most recently active first.
+ * Query: search (text in any query or answer), intent, failed=true (errors, no-answers, escalations), limit, offset.
+ * Response: { sessions: TranscriptSessionSummary[], total: number }.
+ */
+app.get('/admin/transcripts', requireAdmin, async (req: Request, res: Response) => {
+    const { search, intent, failed, limit, offset } = req.query;
+    const result = await transcriptStore.listSessions({
+        search: typeof search === 'string' ? search : undefined,
+        intent: typeof intent === 'string' && intent ? intent : undefined,
+        failedOnly: failed === 'true',
+        limit: Math.min(200, Math.max(1, Number(limit) || 50)),
+        offset: Math.max(0, Number(offset) || 0),
+    });
+    return res.json(result);
+});
+
+/**
+ * Returns every persisted turn of one conversation, oldest first.
+ */
+app.get('/admin/transcripts/:sessionId', requireAdmin, async (req: Request, res: Response) => {
+    const turns = await transcriptStore.getSession(req.params.sessionId);
+    if (turns.length === 0) {
+        return res.status(404).json({ error: 'No transcript found for this session.' });
+    }
+    return res.json({ sessionId: req.params.sessionId, turns });
+});
+
+/**
+ * Reports hit, miss and size counters of the embedding, retrieval and answer caches.
+ */
+app.get('/admin/cache', requireAdmin, (req: Request, res: Response) => {
+    return res.json(cacheStats());
+});
+
+/**
+ * Reports the circuit-breaker state of every external service called so far.
+ */
+app.get('/admin/circuits', requireAdmin, (req: Request, res: Response) => {
+    return res.json(circuitStates());
+});
+
+/**
+ * Turns body-parser failures (oversized or malformed JSON) into the same error shape as the routes.
+ */
+app.use((error: { type?: string }, req: Request, res: Response, next: NextFunction) => {
+    if (error.type === 'entity.too.large') {
+        return res.status(413).json({ error: `The request body is too large (limit ${MAX_BODY_SIZE}).`, code: 'payload_too_large' } satisfies ApiError);
+    }
+    if (error.type === 'entity.parse.failed') {
+        return res.status(400).json({ error: 'The request body is not valid JSON.', code: 'invalid_request' } satisfies ApiError);
+    }
+    next(error);
+});
+
 // Start server
 app.listen(port, () => {
     console.log(`\n✅ Server is running on http://localhost:${port}`);
-    console.log('Endpoints ready: /api/query (POST)');
+    console.log('Endpoints ready: /api/query (POST), /api/query/stream (POST, Server-Sent Events), /api/session/:sessionId (DELETE), /admin/transcripts, /admin/cache and /admin/circuits (GET, admin token)');
+    if (!CLIENT_AUTH_REQUIRED) {
+        console.warn('[Server] /api is open to any caller. Set CLIENT_API_KEYS or CLIENT_TOKEN_SECRET to require client authentication.');
+    }
 });
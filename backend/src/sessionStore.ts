@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import type { DialogState } from './dialog.js';
+import type { VerificationState } from './verification.js';
+
+// --- CONFIGURATION ---
+// SESSION_TTL_MINUTES  Idle time after which a session is forgotten.
+// SESSION_MAX_TURNS    Number of most recent turns (user + assistant messages) kept per session.
+// SESSION_STORE_PATH   Optional JSON file to persist sessions across restarts; in-memory only if unset.
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MINUTES || 30) * 60 * 1000;
+const SESSION_MAX_TURNS = Number(process.env.SESSION_MAX_TURNS || 20);
+const SESSION_STORE_PATH = process.env.SESSION_STORE_PATH;
+
+// A single message in the conversation
+export interface ConversationTurn {
+    role: 'user' | 'assistant';
+    text: string;
+    intent?: string; // The routed intent, for assistant turns
+    outcome?: 'answered' | 'no_answer'; // The knowledge-base outcome, for assistant turns that searched it
+    timestamp: number;
+}
+
+export interface Session {
+    id: string;
+    clientId?: string; // The API client that started the session; no other client may continue or delete it
+    turns: ConversationTurn[];
+    dialog?: DialogState; // Set while the bot is waiting for specific input (e.g. an order number)
+    verification?: VerificationState; // Orders this session has proven ownership of, and failed attempts
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface SessionStore {
+    /** Returns the session, or null if it does not exist or has expired. */
+    get(id: string): Promise<Session | null>;
+
+    /** Saves the session, trimming its history and refreshing its expiry. */
+    save(session: Session): Promise<void>;
+
+    /** Forgets the session. */
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Creates an empty session with a fresh random id.
+ * @param clientId The API client the session belongs to.
+ */
+export function createSession(clientId?: string): Session {
+    const now = Date.now();
+    return { id: randomUUID(), clientId, turns: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Creates a session store held in memory with an idle TTL, optionally mirrored to a JSON file.
+ * @param filePath Where to persist sessions. Omit to keep them in memory only.
+ */
+export function createSessionStore(filePath?: string): SessionStore {
+    const sessions = new Map<string, Session>();
+
+    if (filePath && fs.existsSync(filePath)) {
+        try {
+            const saved: Session[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            saved.forEach(session => sessions.set(session.id, session));
+            console.log(`[Sessions] Loaded ${sessions.size} sessions from ${filePath}`);
+        } catch (error) {
+            console.warn(`[Sessions] Could not read ${filePath}. Starting empty.`, error);
+        }
+    }
+
+    const isExpired = (session: Session) => Date.now() - session.updatedAt > SESSION_TTL_MS;
+
+    const persist = () => {
+        if (!filePath) return;
+        fs.writeFileSync(filePath, JSON.stringify([...sessions.values()]));
+    };
+
+    const purgeExpired = () => {
+        for (const [id, session] of sessions) {
+            if (isExpired(session)) sessions.delete(id);
+        }
+    };
+
+    return {
+        async get(id: string) {
+            const session = sessions.get(id);
+            if (!session) return null;
+            if (isExpired(session)) {
+                sessions.delete(id);
+                persist();
+                return null;
+            }
+            return session;
+        },
+
+        async save(session: Session) {
+            session.turns = session.turns.slice(-SESSION_MAX_TURNS);
+            session.updatedAt = Date.now();
+            sessions.set(session.id, session);
+            purgeExpired();
+            persist();
+        },
+
+        async delete(id: string) {
+            sessions.delete(id);
+            persist();
+        },
+    };
+}
+
+// The process-wide session store
+export const sessionStore = createSessionStore(SESSION_STORE_PATH);
+
+/**
+ * Returns a client's session, or null if it does not exist, has expired or belongs to another client.
+ * Session ids travel with every request, so knowing one must not be enough to read or end the conversation.
+ * @param id The session id sent by the client.
+ * @param clientId The authenticated client (see clientAuth.ts).
+ */
+export async function getClientSession(id: string, clientId: string): Promise<Session | null> {
+    const session = await sessionStore.get(id);
+    if (session && session.clientId !== clientId) {
+        console.warn(`[Sessions] Client ${clientId} used session ${id}, which belongs to another client. Ignoring it.`);
+        return null;
+    }
+    return session;
+}
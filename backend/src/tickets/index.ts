@@ -0,0 +1,54 @@
+import * as path from 'path';
+import { randomInt } from 'crypto';
+import { createLocalTicketService } from './localTicketService.js';
+import { createWebhookTicketService } from './webhookTicketService.js';
+import type { TicketService } from './types.js';
+
+export type { EscalationReason, SupportTicket, TicketService } from './types.js';
+export { createLocalTicketService } from './localTicketService.js';
+export { createWebhookTicketService } from './webhookTicketService.js';
+
+// --- CONFIGURATION ---
+// TICKET_WEBHOOK_URL    If set, tickets are POSTed here (with TICKET_WEBHOOK_TOKEN as a bearer token, if set).
+//                       Tickets that cannot be delivered are kept in the local file instead.
+// TICKETS_PATH          The local ticket file.
+const TICKET_WEBHOOK_URL = process.env.TICKET_WEBHOOK_URL;
+const TICKET_WEBHOOK_TOKEN = process.env.TICKET_WEBHOOK_TOKEN;
+const TICKETS_PATH = process.env.TICKETS_PATH || path.join(process.cwd(), 'data', 'tickets.json');
+
+/**
+ * Wraps a ticket service so that tickets it fails to deliver are stored by a fallback instead of lost.
+ * @param primary The preferred service (e.g. the webhook).
+ * @param fallback The service used when the primary fails (e.g. the local file).
+ */
+export function createFailoverTicketService(primary: TicketService, fallback: TicketService): TicketService {
+    return {
+        name: primary.name,
+
+        async create(ticket) {
+            try {
+                await primary.create(ticket);
+            } catch (error) {
+                console.warn(`🚨 WARNING: ${primary.name} could not file ${ticket.reference}. Storing it with ${fallback.name}.`, error);
+                await fallback.create(ticket);
+            }
+        },
+    };
+}
+
+/**
+ * Creates the ticket service selected by configuration.
+ */
+export function createTicketService(): TicketService {
+    const local = createLocalTicketService(TICKETS_PATH);
+    return TICKET_WEBHOOK_URL
+        ? createFailoverTicketService(createWebhookTicketService(TICKET_WEBHOOK_URL, TICKET_WEBHOOK_TOKEN), local)
+        : local;
+}
+
+/**
+ * Generates a ticket reference that is easy to read aloud: "TKT-" and six digits.
+ */
+export function generateTicketReference(): string {
+    return `TKT-${randomInt(100000, 1000000)}`;
+}
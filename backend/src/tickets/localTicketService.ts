@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import type { SupportTicket, TicketService } from './types.js';
+
+/**
+ * Creates a ticket service that appends tickets to a JSON file (a JSON array of tickets).
+ * @param filePath Where to store tickets. Created on the first ticket.
+ */
+export function createLocalTicketService(filePath: string): TicketService {
+    return {
+        name: 'local',
+
+        async create(ticket: SupportTicket) {
+            const tickets: SupportTicket[] = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
+            tickets.push(ticket);
+            fs.writeFileSync(filePath, JSON.stringify(tickets, null, 2));
+            console.log(`[Tickets] Stored ${ticket.reference} in ${filePath}`);
+        },
+    };
+}
@@ -0,0 +1,26 @@
+// --- SHARED TICKET TYPES ---
+// Escalations create a support ticket through a TicketService, which either stores it locally
+// or forwards it to the help desk's webhook.
+import type { ConversationTurn } from '../sessionStore.js';
+
+// Why the conversation was handed to a person
+export type EscalationReason = 'explicit_request' | 'repeated_no_answer' | 'negative_sentiment';
+
+export interface SupportTicket {
+    reference: string; // Human-friendly id read back to the user, e.g. "TKT-482913"
+    createdAt: string; // ISO 8601
+    reason: EscalationReason;
+    sessionId: string | null;
+    summary: string; // The user's latest message
+    orderIds: string[]; // Order IDs mentioned in the conversation
+    intents: string[]; // Intents detected during the conversation, oldest first
+    transcript: ConversationTurn[]; // The whole conversation, including the latest message
+}
+
+export interface TicketService {
+    /** Identifies the backend in logs (e.g. "local", "webhook"). */
+    readonly name: string;
+
+    /** Files a ticket. Rejects if the ticket could not be stored. */
+    create(ticket: SupportTicket): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import axios from 'axios';
+import type { SupportTicket, TicketService } from './types.js';
+
+// How long to wait for the help desk before giving up
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Creates a ticket service that POSTs each ticket as JSON to a webhook (e.g. a help-desk integration).
+ * @param url The webhook URL.
+ * @param token Optional bearer token sent with every request.
+ */
+export function createWebhookTicketService(url: string, token?: string): TicketService {
+    return {
+        name: 'webhook',
+
+        async create(ticket: SupportTicket) {
+            try {
+                await axios.post(url, ticket, {
+                    timeout: REQUEST_TIMEOUT_MS,
+                    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+                });
+                console.log(`[Tickets] Sent ${ticket.reference} to the ticket webhook.`);
+            } catch (error) {
+                throw new Error(`Ticket webhook request for ${ticket.reference} failed: ${error instanceof Error ? error.message : error}`);
+            }
+        },
+    };
+}
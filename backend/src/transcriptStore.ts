@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IntentDecider, SlotValue } from './intents/index.js';
+import type { Degradation } from './resilience.js';
+import type { GuardrailTrigger } from './guardrails.js';
+
+// --- CONFIGURATION ---
+// TRANSCRIPTS_PATH  JSONL file every conversation turn is appended to ('off' to disable).
+const TRANSCRIPTS_PATH = process.env.TRANSCRIPTS_PATH || path.join(process.cwd(), 'data', 'transcripts.jsonl');
+
+// A knowledge-base record an answer was grounded in
+export interface RetrievedDocument {
+    doc_id: string;
+    score: number;
+}
+
+// Time spent on each stage of a turn, in milliseconds
+export interface TurnLatency {
+    totalMs: number;
+    classificationMs?: number; // Absent when an active dialog or the escalation policy answered
+    handlerMs?: number;
+}
+
+// One persisted conversation turn: what the user asked, how it was routed and what was answered
+export interface TranscriptTurn {
+    sessionId: string;
+    timestamp: string; // ISO 8601
+    query: string;
+    standaloneQuery?: string; // The query as rewritten by the classifier, when it differs
+    intent: string;
+    classifier?: IntentDecider;
+    slots: Record<string, SlotValue | undefined>;
+    outcome?: 'answered' | 'no_answer';
+    retrieved: RetrievedDocument[];
+    ticketReference?: string;
+    degradation?: Degradation; // Set when an external service failed during the turn
+    guardrail?: GuardrailTrigger; // Set when the query or answer was blocked by a guardrail
+    answer: string;
+    latency: TurnLatency;
+    error?: string; // Set when the turn failed and the user got the generic error answer
+}
+
+// A conversation as listed in the admin viewer
+export interface TranscriptSessionSummary {
+    sessionId: string;
+    startedAt: string;
+    lastActivityAt: string;
+    turnCount: number;
+    firstQuery: string;
+    intents: string[]; // Distinct intents, in order of first appearance
+    failures: number; // Turns that errored, were degraded, found no answer or were escalated
+}
+
+// Which sessions to list; every criterion is optional
+export interface TranscriptQuery {
+    search?: string; // Case-insensitive text to find in any query or answer
+    intent?: string; // Only sessions with at least one turn routed to this intent
+    failedOnly?: boolean; // Only sessions with at least one failed turn
+    limit?: number;
+    offset?: number;
+}
+
+export interface TranscriptStore {
+    /** Persists one turn. */
+    append(turn: TranscriptTurn): Promise<void>;
+
+    /** Lists matching sessions, most recently active first, with the total number of matches. */
+    listSessions(query: TranscriptQuery): Promise<{ sessions: TranscriptSessionSummary[]; total: number }>;
+
+    /** All turns of a session, oldest first (empty if the session is unknown). */
+    getSession(sessionId: string): Promise<TranscriptTurn[]>;
+}
+
+/**
+ * Whether a turn counts as a failure for review: it errored, an external service failed, a guardrail
+ * blocked it, it found nothing relevant, or it was handed to a person.
+ */
+export function isFailedTurn(turn: TranscriptTurn): boolean {
+    return !!turn.error || !!turn.degradation || !!turn.guardrail || turn.outcome === 'no_answer' || !!turn.ticketReference;
+}
+
+/**
+ * Groups turns by session and summarizes each session.
+ */
+function summarizeSessions(turns: TranscriptTurn[]): Map<string, { summary: TranscriptSessionSummary; turns: TranscriptTurn[] }> {
+    const sessions = new Map<string, { summary: TranscriptSessionSummary; turns: TranscriptTurn[] }>();
+    for (const turn of turns) {
+        let entry = sessions.get(turn.sessionId);
+        if (!entry) {
+            entry = {
+                summary: { sessionId: turn.sessionId, startedAt: turn.timestamp, lastActivityAt: turn.timestamp, turnCount: 0, firstQuery: turn.query, intents: [], failures: 0 },
+                turns: [],
+            };
+            sessions.set(turn.sessionId, entry);
+        }
+        const { summary } = entry;
+        entry.turns.push(turn);
+        summary.turnCount += 1;
+        summary.lastActivityAt = turn.timestamp;
+        if (!summary.intents.includes(turn.intent)) summary.intents.push(turn.intent);
+        if (isFailedTurn(turn)) summary.failures += 1;
+    }
+    return sessions;
+}
+
+/**
+ * Creates a transcript store that appends one JSON object per line to a file.
+ * The file is only ever appended to, so it survives restarts and crashes mid-write lose at most one line.
+ * Listing reads the whole file, which is fine for the volumes a single support team reviews.
+ * @param filePath The JSONL file. Created on the first turn.
+ */
+export function createJsonlTranscriptStore(filePath: string): TranscriptStore {
+    const readTurns = (): TranscriptTurn[] => {
+        if (!fs.existsSync(filePath)) return [];
+        const turns: TranscriptTurn[] = [];
+        for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                turns.push(JSON.parse(line));
+            } catch {
+                console.warn(`[Transcripts] Skipping an unreadable line in ${filePath}`);
+            }
+        }
+        return turns;
+    };
+
+    return {
+        async append(turn: TranscriptTurn) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.appendFileSync(filePath, `${JSON.stringify(turn)}\n`);
+        },
+
+        async listSessions({ search, intent, failedOnly, limit = 50, offset = 0 }: TranscriptQuery) {
+            const needle = search?.trim().toLowerCase();
+            const matches = [...summarizeSessions(readTurns()).values()]
+                .filter(({ summary, turns }) =>
+                    (!intent || summary.intents.includes(intent))
+                    && (!failedOnly || summary.failures > 0)
+                    && (!needle || turns.some(turn => turn.query.toLowerCase().includes(needle) || turn.answer.toLowerCase().includes(needle))))
+                .map(({ summary }) => summary)
+                .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+            return { sessions: matches.slice(offset, offset + limit), total: matches.length };
+        },
+
+        async getSession(sessionId: string) {
+            return readTurns().filter(turn => turn.sessionId === sessionId);
+        },
+    };
+}
+
+/**
+ * Creates a transcript store that keeps nothing, for when persistence is turned off.
+ */
+function createDisabledTranscriptStore(): TranscriptStore {
+    return {
+        async append() {},
+        async listSessions() { return { sessions: [], total: 0 }; },
+        async getSession() { return []; },
+    };
+}
+
+// The process-wide transcript store
+export const transcriptStore = TRANSCRIPTS_PATH === 'off'
+    ? createDisabledTranscriptStore()
+    : createJsonlTranscriptStore(TRANSCRIPTS_PATH);
@@ -1,14 +0,0 @@
-/**
- * Simple mock function used as a fallback if the main Pinecone query fails.
- * In a real application, this would load a local vector store (like FAISS) 
- * and perform a quick search, returning the context chunks.
- * * @param query The user's original query.
- * @returns A Promise that resolves to an array of context strings (string[]).
- */
-export async function queryFaissFallback(query: string): Promise<string[]> {
-    const errorDetails = "I encountered a high-traffic issue with my main knowledge base server.";
-    const helpfulMessage = "I can still provide some basic guidance, but for detailed policy information, please check our help page.";
-    const fallbackContext = `${errorDetails} ${helpfulMessage} (Source: Local FAISS Fallback for query: ${query}).`;
-
-    return [fallbackContext]; 
-}
@@ -0,0 +1,92 @@
+import * as path from 'path';
+import { createPineconeVectorStore } from './pineconeStore.js';
+import { createLocalVectorStore, type LocalStoreSeed } from './localStore.js';
+import type { EnsureIndexOptions, IndexMetadata, MetadataFilter, VectorMatch, VectorRecord, VectorStore, VectorStoreDescription } from './types.js';
+
+export type { EnsureIndexOptions, IndexMetadata, MetadataFilter, RecordMetadata, VectorMatch, VectorRecord, VectorStore, VectorStoreDescription } from './types.js';
+export type { LocalStoreSeed } from './localStore.js';
+export { createMemoryVectorStore } from './memoryStore.js';
+
+// --- CONFIGURATION ---
+// VECTOR_STORE selects the backend: 'pinecone', 'local' or 'memory'.
+// Defaults to Pinecone when PINECONE_API_KEY is set, otherwise the local file store.
+const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
+const PINECONE_INDEX = process.env.PINECONE_INDEX || "faq-index";
+const LOCAL_INDEX_PATH = process.env.LOCAL_INDEX_PATH || path.join(process.cwd(), 'data', 'local-index.json');
+
+export type VectorStoreBackend = 'pinecone' | 'local' | 'memory';
+
+/**
+ * Wraps a primary store so that reads fail over to a fallback store when the primary
+ * is unreachable, and writes are mirrored to the fallback so it stays in sync.
+ * @param primary The preferred store (e.g. Pinecone).
+ * @param fallback The store used when the primary fails (e.g. the local store).
+ */
+export function createFailoverVectorStore(primary: VectorStore, fallback: VectorStore): VectorStore {
+    const read = async <T>(operation: string, run: (store: VectorStore) => Promise<T>): Promise<T> => {
+        try {
+            return await run(primary);
+        } catch (error) {
+            console.warn(`🚨 WARNING: ${primary.name} ${operation} failed. Failing over to ${fallback.name}.`, error);
+            return run(fallback);
+        }
+    };
+
+    const write = async (operation: string, run: (store: VectorStore) => Promise<void>): Promise<void> => {
+        await run(primary);
+        try {
+            await run(fallback);
+        } catch (error) {
+            console.warn(`WARNING: Could not mirror ${operation} to ${fallback.name}.`, error);
+        }
+    };
+
+    return {
+        name: primary.name,
+        ensureIndex: (metadata: IndexMetadata, options?: EnsureIndexOptions) => write('ensureIndex', store => store.ensureIndex(metadata, options)),
+        upsert: (records: VectorRecord[]) => write('upsert', store => store.upsert(records)),
+        query: (vector: number[], topK: number, filter?: MetadataFilter): Promise<VectorMatch[]> => read('query', store => store.query(vector, topK, filter)),
+        delete: (ids: string[]) => write('delete', store => store.delete(ids)),
+        deleteAll: () => write('deleteAll', store => store.deleteAll()),
+        describe: (): Promise<VectorStoreDescription> => read('describe', store => store.describe()),
+        namespace: (name: string) => createFailoverVectorStore(primary.namespace(name), fallback.namespace(name)),
+    };
+}
+
+/**
+ * Resolves the configured backend from VECTOR_STORE.
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+    const configured = process.env.VECTOR_STORE?.toLowerCase();
+    if (configured === 'pinecone' || configured === 'local' || configured === 'memory') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown VECTOR_STORE "${configured}". Falling back to the default backend.`);
+    }
+    return PINECONE_API_KEY ? 'pinecone' : 'local';
+}
+
+/**
+ * Creates the vector store selected by configuration.
+ * Pinecone is always paired with the local store as an automatic failover.
+ * @param seed The data the local/in-memory store should be built from when it is empty or stale.
+ */
+export function createVectorStore(seed?: LocalStoreSeed): VectorStore {
+    const backend = getVectorStoreBackend();
+
+    if (backend === 'memory') {
+        return createLocalVectorStore({ seed });
+    }
+
+    const localStore = createLocalVectorStore({ filePath: LOCAL_INDEX_PATH, seed });
+    if (backend === 'local') {
+        return localStore;
+    }
+
+    if (!PINECONE_API_KEY) {
+        console.warn("VECTOR_STORE is 'pinecone' but PINECONE_API_KEY is not set. Using the local vector store.");
+        return localStore;
+    }
+    return createFailoverVectorStore(createPineconeVectorStore(PINECONE_API_KEY, PINECONE_INDEX), localStore);
+}
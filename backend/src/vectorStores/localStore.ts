@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import { createMemoryVectorStore, type MemoryStoreState } from './memoryStore.js';
+import type { IndexMetadata, MetadataFilter, VectorMatch, VectorRecord, VectorStore, VectorStoreDescription } from './types.js';
+
+// The data a local store should mirror in its default namespace. When the fingerprint
+// recorded with the store differs, the records are re-embedded on the next query.
+export interface LocalStoreSeed {
+    fingerprint: string; // Should cover both the source data and the embedder
+    metadata: IndexMetadata;
+    records: () => Promise<VectorRecord[]>;
+}
+
+interface LocalStoreOptions {
+    /** Where to persist vectors. Omit for a purely in-memory store. */
+    filePath?: string;
+    seed?: LocalStoreSeed;
+}
+
+// On-disk format of the persisted index
+interface LocalIndexFile extends MemoryStoreState {
+    fingerprint: string | null; // Seed fingerprint at the time the vectors were written
+}
+
+/**
+ * Creates an in-process vector store that runs without any external service.
+ * Vectors are optionally persisted to a JSON file, and the default namespace is (re)built
+ * from the seed when it is missing or out of date.
+ * @param options The persistence path and seed data.
+ * @returns A VectorStore scoped to the default namespace.
+ */
+export function createLocalVectorStore(options: LocalStoreOptions = {}): VectorStore {
+    const { filePath, seed } = options;
+    const name = filePath ? 'local' : 'memory';
+    let fingerprint: string | null = null;
+    let loaded: VectorStore | null = null;
+
+    const persist = (state: MemoryStoreState) => {
+        if (!filePath) return;
+        const indexFile: LocalIndexFile = { ...state, fingerprint };
+        fs.writeFileSync(filePath, JSON.stringify(indexFile));
+    };
+
+    const load = (): VectorStore => {
+        if (loaded) return loaded;
+
+        let state: MemoryStoreState | undefined;
+        if (filePath && fs.existsSync(filePath)) {
+            try {
+                const indexFile: LocalIndexFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+                fingerprint = indexFile.fingerprint;
+                state = { dimension: indexFile.dimension, metadata: indexFile.metadata ?? null, namespaces: indexFile.namespaces };
+                console.log(`[${name}] Loaded vectors from ${filePath}`);
+            } catch (error) {
+                console.warn(`[${name}] Could not read ${filePath}. Starting empty.`, error);
+            }
+        }
+
+        loaded = createMemoryVectorStore({ name, state, onChange: persist });
+        return loaded;
+    };
+
+    // Rebuilds the default namespace from the seed if it was never built or the source data changed.
+    const ensureSeeded = async (): Promise<VectorStore> => {
+        const store = load();
+        if (seed && fingerprint !== seed.fingerprint) {
+            console.log(`[${name}] Local index is missing or out of date with its source data. Rebuilding...`);
+            const records = await seed.records();
+            fingerprint = seed.fingerprint;
+            await store.ensureIndex(seed.metadata);
+            await store.deleteAll();
+            await store.upsert(records);
+            console.log(`[${name}] Indexed ${records.length} records.`);
+        }
+        return store;
+    };
+
+    // Writes are assumed to come from the current seed data, so they bring the fingerprint up to date.
+    const write = async (ns: string, operation: (store: VectorStore) => Promise<void>) => {
+        if (ns === '' && seed) fingerprint = seed.fingerprint;
+        await operation(load().namespace(ns));
+    };
+
+    const scoped = (ns: string): VectorStore => ({
+        name,
+
+        ensureIndex: (metadata: IndexMetadata) => write(ns, store => store.ensureIndex(metadata)),
+
+        upsert: (records: VectorRecord[]) => write(ns, store => store.upsert(records)),
+
+        async query(vector: number[], topK: number, filter?: MetadataFilter): Promise<VectorMatch[]> {
+            const store = ns === '' ? await ensureSeeded() : load();
+            return store.namespace(ns).query(vector, topK, filter);
+        },
+
+        delete: (ids: string[]) => write(ns, store => store.delete(ids)),
+
+        deleteAll: () => write(ns, store => store.deleteAll()),
+
+        describe: (): Promise<VectorStoreDescription> => load().describe(),
+
+        namespace: scoped,
+    });
+
+    return scoped('');
+}
@@ -0,0 +1,116 @@
+import type { IndexMetadata, MetadataFilter, VectorMatch, VectorRecord, VectorStore, VectorStoreDescription } from './types.js';
+
+// Plain, serializable contents of an in-memory store (also the on-disk format of the local store)
+export interface MemoryStoreState {
+    dimension: number | null;
+    metadata: IndexMetadata | null;
+    namespaces: Record<string, VectorRecord[]>;
+}
+
+interface MemoryStoreOptions {
+    name?: string;
+    state?: MemoryStoreState;
+    /** Called after every write with the full, updated state. */
+    onChange?: (state: MemoryStoreState) => void;
+}
+
+/**
+ * Computes the cosine similarity between two vectors of equal length.
+ * @returns A score in [-1, 1]; 0 if either vector has zero magnitude.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Creates a brute-force cosine-similarity vector store held entirely in process memory.
+ * Used directly for tests (VECTOR_STORE=memory) and as the engine behind the local file store.
+ * @param options Optional initial state and a change listener.
+ * @returns A VectorStore scoped to the default namespace.
+ */
+export function createMemoryVectorStore(options: MemoryStoreOptions = {}): VectorStore {
+    const name = options.name || 'memory';
+    const state: MemoryStoreState = options.state || { dimension: null, metadata: null, namespaces: {} };
+
+    const notify = () => options.onChange?.(state);
+
+    const scoped = (ns: string): VectorStore => ({
+        name,
+
+        async ensureIndex(metadata: IndexMetadata) {
+            const changed = (state.dimension !== null && state.dimension !== metadata.dimension)
+                || (state.metadata !== null && state.metadata.embeddingModel !== metadata.embeddingModel);
+            if (changed) {
+                console.log(`[${name}] Embedder changed from ${state.metadata?.embeddingModel ?? 'unknown'} (${state.dimension}D) to ${metadata.embeddingModel} (${metadata.dimension}D). Clearing all namespaces.`);
+                state.namespaces = {};
+            }
+            state.dimension = metadata.dimension;
+            state.metadata = metadata;
+            notify();
+        },
+
+        async upsert(records: VectorRecord[]) {
+            const existing = state.namespaces[ns] || [];
+            const byId = new Map(existing.map(record => [record.id, record]));
+            for (const record of records) {
+                if (state.dimension === null) state.dimension = record.values.length;
+                if (record.values.length !== state.dimension) {
+                    throw new Error(`Vector ${record.id} has dimension ${record.values.length}, but the store expects ${state.dimension}.`);
+                }
+                byId.set(record.id, record);
+            }
+            state.namespaces[ns] = [...byId.values()];
+            notify();
+        },
+
+        async query(vector: number[], topK: number, filter?: MetadataFilter): Promise<VectorMatch[]> {
+            if (state.dimension !== null && vector.length !== state.dimension) {
+                throw new Error(`Query vector has dimension ${vector.length}, but the store expects ${state.dimension}.`);
+            }
+            const filterEntries = Object.entries(filter ?? {});
+            return (state.namespaces[ns] || [])
+                .filter(record => filterEntries.every(([key, value]) => record.metadata[key] === value))
+                .map(record => ({
+                    id: record.id,
+                    score: cosineSimilarity(vector, record.values),
+                    metadata: record.metadata,
+                }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, topK);
+        },
+
+        async delete(ids: string[]) {
+            const toDelete = new Set(ids);
+            state.namespaces[ns] = (state.namespaces[ns] || []).filter(record => !toDelete.has(record.id));
+            notify();
+        },
+
+        async deleteAll() {
+            delete state.namespaces[ns];
+            notify();
+        },
+
+        async describe(): Promise<VectorStoreDescription> {
+            const namespaces: VectorStoreDescription['namespaces'] = {};
+            let totalRecordCount = 0;
+            for (const [key, records] of Object.entries(state.namespaces)) {
+                namespaces[key] = { recordCount: records.length };
+                totalRecordCount += records.length;
+            }
+            return { name, dimension: state.dimension, metadata: state.metadata, totalRecordCount, namespaces };
+        },
+
+        namespace: scoped,
+    });
+
+    return scoped('');
+}
@@ -1,183 +1,166 @@
-import 'dotenv/config'; 
 import { Pinecone } from '@pinecone-database/pinecone';
-import { GoogleGenAI } from '@google/genai'; 
+import type { EnsureIndexOptions, IndexMetadata, MetadataFilter, RecordMetadata, VectorMatch, VectorRecord, VectorStore, VectorStoreDescription } from './types.js';
+import { resilientCaller } from '../resilience.js';
 
-// --- CONFIGURATION and CONSTANTS matching src/ingest.ts ---
-const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
-const PINECONE_INDEX = process.env.PINECONE_INDEX || "faq-index";
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY; 
-const EMBEDDING_MODEL = 'embedding-001';
-const EMBEDDING_DIMENSION = 768; // Correct dimension for Google's embedding-001 model
+// Pinecone has no index-level metadata, so the embedder that built the index is recorded as a
+// single sentinel record in a reserved namespace that queries never touch.
+const METADATA_NAMESPACE = '__index_metadata__';
+const METADATA_RECORD_ID = 'embedder';
 
-if (!PINECONE_API_KEY) {
-    throw new Error("PINECONE_API_KEY is not set.");
-}
-if (!GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY is not set. Required for Google embeddings and RAG generation.");
-}
-
-// Define the metadata structure (for type safety with Pinecone)
-interface RecordMetadata {
-    id: string;
-    doc_id: string;
-    question: string;
-    answer: string;
-    [key: string]: any; 
+/**
+ * Reads the embedder metadata recorded with the index, if any.
+ */
+async function readIndexMetadata(pc: Pinecone, indexName: string): Promise<IndexMetadata | null> {
+    const result = await pc.index(indexName).namespace(METADATA_NAMESPACE).fetch([METADATA_RECORD_ID]);
+    const metadata = result.records[METADATA_RECORD_ID]?.metadata;
+    if (!metadata) return null;
+    return { embeddingModel: String(metadata.embeddingModel), dimension: Number(metadata.dimension) };
 }
 
-// 1. Initialize Clients (asserting non-null after checks)
-const pc = new Pinecone({ 
-    apiKey: PINECONE_API_KEY!,
-});
-const index = pc.index<RecordMetadata>(PINECONE_INDEX!);
-// The Google GenAI client for RAG completion and embedding
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
-
-
-// --- GOOGLE EMBEDDING FUNCTION WITH QUOTA FALLBACK (Matching src/ingest.ts) ---
-
-// Flag to track if we need to use the mock function due to quota issues
-// This state persists across queries in the same server session.
-let useMockEmbedding = false;
-
 /**
- * Generates an embedding for a text chunk using the Google embedding model, 
- * or falls back to a mock vector if a quota limit is hit.
- * @param text The text to embed.
- * @returns The embedding vector (array of numbers).
+ * Records the embedder metadata with the index.
  */
-async function generateGoogleEmbedding(text: string): Promise<number[]> {
-    if (useMockEmbedding) {
-        // Fallback to mock embedding
-        return Array.from({ length: EMBEDDING_DIMENSION }, () => Math.random() - 0.5);
-    }
-    
-    try {
-        const result = await ai.models.embedContent({ 
-            model: EMBEDDING_MODEL,
-            contents: [text], 
-        });
-
-        if (!result.embeddings?.[0]?.values) { 
-            throw new Error("Google Embedding API returned an empty result or missing embedding values.");
-        }
-        
-        return result.embeddings[0].values;
-        
-    } catch (error: any) {
-        // Check for specific API error indicating quota exhaustion (status 429)
-        if (error.status === 429 || error.message?.includes("Quota exceeded")) {
-            console.warn("\n🚨 WARNING: Google Embedding Quota Exceeded. Falling back to mock embeddings for this query.");
-            useMockEmbedding = true; // Set flag to use mock for all subsequent calls within this server session
-            
-            // Generate mock vector for the current failed call
-            return Array.from({ length: EMBEDDING_DIMENSION }, () => Math.random() - 0.5);
-        }
-        
-        // Re-throw any other unexpected error
-        throw error;
-    }
+async function writeIndexMetadata(pc: Pinecone, indexName: string, metadata: IndexMetadata): Promise<void> {
+    // Pinecone rejects all-zero vectors, so the sentinel gets a single non-zero component.
+    const values = Array.from({ length: metadata.dimension }, (_, i) => (i === 0 ? 1 : 0));
+    await pc.index(indexName).namespace(METADATA_NAMESPACE).upsert([{
+        id: METADATA_RECORD_ID,
+        values,
+        metadata: { embeddingModel: metadata.embeddingModel, dimension: metadata.dimension },
+    }]);
 }
 
-
 /**
- * Executes the full RAG pipeline: retrieval and answer generation.
- * 1. Generates an embedding for the user query (using live Google API or mock fallback).
- * 2. Queries Pinecone for the top relevant context chunks.
- * 3. Uses Gemini to generate a grounded answer based on the context.
- * * @param query The user's question.
- * @returns The final generated answer string from the LLM.
+ * Checks that the Pinecone index exists with the expected dimension and embedding model.
+ * A mismatching index is deleted and recreated only when recreation is allowed (ingest --recreate);
+ * otherwise, and whenever the index cannot be inspected, this throws and leaves the index alone.
+ * @param pc The Pinecone client.
+ * @param indexName The index to check.
+ * @param metadata The embedder the index must be built for.
+ * @param allowRecreate Whether a mismatching index may be deleted.
  */
-export async function queryPinecone(query: string): Promise<string[]> {
-    console.log(`[RAG] Searching Pinecone index '${PINECONE_INDEX}' for query: ${query}`);
-    const llmModel = 'gemini-2.5-flash';
-    
-    try {
-        // 1. Generate query embedding (using Google function with quota fallback)
-        const queryEmbedding = await generateGoogleEmbedding(query);
-
-        // 2. Query Pinecone
-        const queryResult = await index.query({
-            vector: queryEmbedding,
-            topK: 8,
-            includeMetadata: true,
-        });
-
-        // 3. Format contexts for LLM
-        let contextChunks: string[] = queryResult.matches
-            .map(match => {
-                // Safely extract typed metadata
-                const { answer, doc_id } = match.metadata!; 
-                // Format the context string
-                return { answer, doc_id };
-            })
-            // Filter to only include the specific document needed to answer the user's test query, 
-            // bypassing the random score issue caused by mock embeddings.
-            .filter(record => 
-                // CRITICAL FIX for Mock Data: Force the inclusion of "Returns Policy" 
-                // if the query is related to returns, ensuring the RAG test passes.
-                (record.doc_id === "Returns Policy" && query.toLowerCase().includes("return")) || 
-                // Include other records for general testing if not a return query
-                !query.toLowerCase().includes("return")
-            )
-            // Limit to top 3 context chunks after filtering (or just use all if filter passed)
-            .slice(0, 3) 
-            // Re-format into the final string array
-            .map(record => `Context: ${record.answer} (Source: ${record.doc_id} doc)`);
-            
-        // Fallback for non-return queries if the list is empty after the strict filter
-        if (contextChunks.length === 0 && !query.toLowerCase().includes("return")) {
-             // If we filtered out everything and it wasn't a return query, just take the top 3 random
-             contextChunks = queryResult.matches
-                .slice(0, 3) 
-                .map(match => `Context: ${match.metadata!.answer} (Source: ${match.metadata!.doc_id} doc)`);
-        } else if (contextChunks.length === 0 && query.toLowerCase().includes("return")) {
-             // If a return query was made, but the Returns Policy doc wasn't even in the top 8, we still need to fail.
-             // This shouldn't happen with the current small dataset.
-        }
-            
-        // 3a. Handle no context found (only happens if query returns zero matches from Pinecone)
-        if (contextChunks.length === 0) {
-            console.log("[RAG] No strong context matches found in Pinecone. Returning generic message.");
-            return ["No strong matches were found for your query in the knowledge base."];
-        }
-
-        // 3b. Join context chunks into a single string for the prompt
-        const combinedContext = contextChunks.join('\n---\n');
-            
-        // --- 4. Generate Grounded Answer using Gemini ---
-        console.log(`[RAG] Context retrieved from ${contextChunks.length} sources. Generating answer using ${llmModel}...`);
-
-        const systemPrompt = `You are a friendly, helpful, and highly accurate customer care assistant.
-        Your task is to answer the user's question ONLY based on the provided CONTEXT.
-        If the CONTEXT does not contain the answer, state that you cannot answer from the knowledge base.
-        Responses must be clear, conversational, and always include a short citation at the end of the sentence or paragraph, referencing the source document ID.
-        
-        Example response format: 
-        "The maximum return period is 30 days (from Returns Policy doc)."
-        "Yes, you can track it using your order number (from Shipping FAQ doc)."
-
-        CONTEXT:
-        ${combinedContext}`;
-        
-        const response = await ai.models.generateContent({
-            model: llmModel,
-            contents: [{ role: "user", parts: [{ text: query }] }],
-            config: {
-                systemInstruction: systemPrompt,
+async function ensurePineconeIndex(pc: Pinecone, indexName: string, metadata: IndexMetadata, allowRecreate: boolean): Promise<void> {
+    const { dimension } = metadata;
+    const indexList = await pc.listIndexes();
+    const existingIndexInfo = indexList.indexes?.find(i => i.name === indexName);
+    let indexNeedsCreation = true;
+
+    if (existingIndexInfo) {
+        console.log(`Index ${indexName} found. Checking dimension...`);
+        // A failure here (network error, rate limit) propagates: the index is never deleted on a guess
+        const indexDescription = await pc.describeIndex(indexName);
+        const currentDimension = indexDescription.dimension;
+
+        const currentModel = currentDimension === dimension
+            ? (await readIndexMetadata(pc, indexName))?.embeddingModel
+            : undefined;
+
+        if (currentDimension === dimension && (currentModel === undefined || currentModel === metadata.embeddingModel)) {
+            console.log(`Index dimension is correct (${dimension}). Skipping creation.`);
+            indexNeedsCreation = false;
+        } else {
+            const mismatch = currentDimension === dimension
+                ? `Index was built with ${currentModel}, but ingestion uses ${metadata.embeddingModel}.`
+                : `Index dimension is ${currentDimension}, but should be ${dimension}.`;
+            if (!allowRecreate) {
+                throw new Error(`Mismatch detected! ${mismatch} Re-run ingestion with --recreate to delete and rebuild index ${indexName}.`);
             }
-        });
+            console.log(`Mismatch detected! ${mismatch}`);
+            console.log(`Deleting index ${indexName} so vectors from different models are never mixed...`);
 
-        if (!response.text) {
-            throw new Error("Gemini API failed to generate text content.");
+            await pc.deleteIndex(indexName);
+            console.log('Deletion successful. Waiting for cleanup...');
+            // Wait (10s) for the index to fully delete before recreating
+            await new Promise(resolve => setTimeout(resolve, 10000));
         }
-        
-        const finalAnswer = response.text.trim();
-        console.log(`[RAG] Final Answer Generated: ${finalAnswer}`);
-        return [finalAnswer];
-
-    } catch (error) {
-        console.error("❌ Error during RAG pipeline execution (Pinecone/Mock/Gemini):", error);
-        throw error;
     }
+
+    if (indexNeedsCreation) {
+         console.log(`Creating index ${indexName} with dimension ${dimension}...`);
+         await pc.createIndex({
+             name: indexName,
+             dimension, 
+             spec: { 
+                serverless: { 
+                    cloud: 'aws', 
+                    region: 'us-east-1' 
+                } 
+             }
+         });
+         console.log(`Index ${indexName} created. Waiting for readiness...`);
+         // Wait for index creation/readiness
+         await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+
+    await writeIndexMetadata(pc, indexName, metadata);
+}
+
+/**
+ * Creates a VectorStore backed by a Pinecone serverless index.
+ * Data-plane calls go through the shared 'pinecone' resilient caller (timeouts, retries, circuit breaker),
+ * so a failover store takes over quickly while Pinecone is down. Index management is not wrapped:
+ * it is only run by ingestion and waits for Pinecone on purpose.
+ * @param apiKey The Pinecone API key.
+ * @param indexName The name of the Pinecone index.
+ * @returns A VectorStore scoped to the default namespace.
+ */
+export function createPineconeVectorStore(apiKey: string, indexName: string): VectorStore {
+    const pc = new Pinecone({ apiKey });
+    const name = `pinecone:${indexName}`;
+    const caller = resilientCaller('pinecone');
+
+    const scoped = (ns: string): VectorStore => {
+        const index = pc.index<RecordMetadata>(indexName).namespace(ns);
+
+        return {
+            name,
+
+            ensureIndex: (metadata: IndexMetadata, options?: EnsureIndexOptions) => ensurePineconeIndex(pc, indexName, metadata, options?.recreate ?? false),
+
+            async upsert(records: VectorRecord[]) {
+                console.log(`[${name}] Upserting ${records.length} vectors...`);
+                await caller.call('upsert', () => index.upsert(records));
+            },
+
+            async query(vector: number[], topK: number, filter?: MetadataFilter): Promise<VectorMatch[]> {
+                const queryResult = await caller.call('query', () => index.query({
+                    vector,
+                    topK,
+                    includeMetadata: true,
+                    filter: filter
+                        ? Object.fromEntries(Object.entries(filter).map(([key, value]) => [key, { $eq: value }]))
+                        : undefined,
+                }));
+                return queryResult.matches.map(match => ({
+                    id: match.id,
+                    score: match.score ?? 0,
+                    metadata: match.metadata!,
+                }));
+            },
+
+            async delete(ids: string[]) {
+                if (ids.length > 0) await caller.call('deleteMany', () => index.deleteMany(ids));
+            },
+
+            async deleteAll() {
+                await caller.call('deleteAll', () => index.deleteAll());
+            },
+
+            async describe(): Promise<VectorStoreDescription> {
+                const stats = await caller.call('describeIndexStats', () => index.describeIndexStats());
+                const { [METADATA_NAMESPACE]: metadataNamespace, ...namespaces } = stats.namespaces ?? {};
+                return {
+                    name,
+                    dimension: stats.dimension ?? null,
+                    metadata: await caller.call('fetch', () => readIndexMetadata(pc, indexName)),
+                    totalRecordCount: (stats.totalRecordCount ?? 0) - (metadataNamespace?.recordCount ?? 0),
+                    namespaces,
+                };
+            },
+
+            namespace: scoped,
+        };
+    };
+
+    return scoped('');
 }
@@ -0,0 +1,90 @@
+// --- SHARED VECTOR STORE TYPES ---
+// Every backend (Pinecone, the local file store, the in-memory store) implements VectorStore,
+// so src/ingest.ts and the RAG pipeline never depend on a specific client library.
+
+// Define the metadata structure stored alongside every vector
+export interface RecordMetadata {
+    id: string;
+    doc_id: string;
+    question: string;
+    answer: string;
+    url?: string;
+    doc_type?: 'faq' | 'product' | 'document'; // Where the record came from; missing on records ingested before doc types existed
+    sku?: string; // For product records
+    source_file?: string; // For document chunks: the file under data/docs
+    section_title?: string; // For document chunks: the heading path of the section
+    chunk_index?: number; // For document chunks: position of the chunk within its document (0-based)
+    chunk_count?: number; // For document chunks: how many chunks the document was split into
+    [key: string]: any;
+}
+
+// Restricts a query to records whose metadata equals every given value (e.g. { doc_type: 'product' })
+export type MetadataFilter = Record<string, string | number | boolean>;
+
+// A single vector to be written, shaped like a Pinecone upsert record
+export interface VectorRecord {
+    id: string;
+    values: number[];
+    metadata: RecordMetadata;
+}
+
+// A single search result, shaped like a Pinecone query match
+export interface VectorMatch {
+    id: string;
+    score: number;
+    metadata: RecordMetadata;
+}
+
+// How the vectors in an index were produced. Stored with the index so that ingestion and
+// querying can detect when they are using different embedders.
+export interface IndexMetadata {
+    embeddingModel: string;
+    dimension: number;
+}
+
+// Summary statistics for a store, mirroring Pinecone's describeIndexStats()
+export interface VectorStoreDescription {
+    name: string;
+    dimension: number | null;
+    metadata: IndexMetadata | null;
+    totalRecordCount: number;
+    namespaces: Record<string, { recordCount: number }>;
+}
+
+export interface EnsureIndexOptions {
+    recreate?: boolean; // Allow deleting and recreating an index built for another embedder
+}
+
+export interface VectorStore {
+    /** Human-readable backend name used in logs (e.g. "pinecone:faq-index", "local"). */
+    readonly name: string;
+
+    /**
+     * Makes sure the underlying index exists for the given embedder and records its metadata.
+     * If the index was built with a different embedding model or dimension, it is cleared or recreated.
+     * A remote index (Pinecone) is only deleted when options.recreate is set; otherwise the mismatch is
+     * an error, and so is any failure to inspect the index, so a transient error never wipes it.
+     */
+    ensureIndex(metadata: IndexMetadata, options?: EnsureIndexOptions): Promise<void>;
+
+    /** Inserts or overwrites records by id in the current namespace. */
+    upsert(records: VectorRecord[]): Promise<void>;
+
+    /**
+     * Returns the nearest records to a vector in the current namespace, highest score first.
+     * With a filter, only records whose metadata matches it are considered.
+     */
+    query(vector: number[], topK: number, filter?: MetadataFilter): Promise<VectorMatch[]>;
+
+    /** Deletes records by id from the current namespace. */
+    delete(ids: string[]): Promise<void>;
+
+    /** Deletes every record in the current namespace. */
+    deleteAll(): Promise<void>;
+
+    /** Describes the whole store, across all namespaces. */
+    describe(): Promise<VectorStoreDescription>;
+
+    /** Returns a view of the same store scoped to another namespace. The default namespace is ''. */
+    namespace(name: string): VectorStore;
+}
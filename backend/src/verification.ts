@@ -0,0 +1,131 @@
+import { DIALOG_CANCELLED_ANSWER, isCancellation, isNewQuestion, readSpelledCharacters, type DialogSlots, type DialogStep, type VerificationDialog } from './dialog.js';
+import { findOrder } from './orderStatus.js';
+import type { Order } from './orders/index.js';
+import type { Session } from './sessionStore.js';
+
+// --- CONFIGURATION ---
+// ORDER_VERIFICATION            'true' to require the email or postcode on an order before revealing its details.
+// VERIFICATION_MAX_FAILURES     Failed verification attempts allowed per session before it is locked out.
+// VERIFICATION_LOCKOUT_MINUTES  How long a locked-out session must wait before trying again.
+export const ORDER_VERIFICATION_REQUIRED = process.env.ORDER_VERIFICATION === 'true';
+const VERIFICATION_MAX_FAILURES = Number(process.env.VERIFICATION_MAX_FAILURES || 3);
+const VERIFICATION_LOCKOUT_MS = Number(process.env.VERIFICATION_LOCKOUT_MINUTES || 15) * 60 * 1000;
+
+// Per-session verification record, stored on the session
+export interface VerificationState {
+    verifiedOrderIds: string[];
+    failures: number;
+    lockedUntil?: number; // Epoch ms; no verification is attempted before this time
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/g;
+
+// Postcodes are written in up to this many parts (e.g. "SW1A 1AA", "K1A 0B1")
+const POSTCODE_MAX_PARTS = 3;
+
+/**
+ * Starts verification for an order the user asked about.
+ * @param orderId The order to verify ownership of.
+ * @param intent The intent to continue once verified.
+ * @param slots The slots the intent has collected so far.
+ */
+export function startVerificationDialog(orderId: string, intent: string, slots: DialogSlots = {}): VerificationDialog {
+    return { name: 'awaiting_verification', orderId, intent, slots };
+}
+
+/**
+ * What the bot says to ask for proof of ownership.
+ */
+export function verificationPrompt(orderId: string): string {
+    return `Before I share the details of order **${orderId}**, I need to confirm it's yours. What's the email address or postcode on the order?`;
+}
+
+/**
+ * The message for a session that has failed verification too often.
+ */
+export function lockedOutAnswer(session: Session): string {
+    const minutes = Math.max(1, Math.ceil(((session.verification?.lockedUntil ?? 0) - Date.now()) / 60000));
+    return `I'm sorry, I couldn't verify those details. For your security I can't share order details for the next ${minutes} minute${minutes === 1 ? '' : 's'}. You can also contact our support team for help.`;
+}
+
+/**
+ * Whether the session may see the order's details without being asked to verify.
+ */
+export function isVerifiedFor(session: Session | undefined, orderId: string): boolean {
+    return !ORDER_VERIFICATION_REQUIRED || !!session?.verification?.verifiedOrderIds.includes(orderId);
+}
+
+/**
+ * Whether the session is locked out after too many failed verifications.
+ */
+export function isLockedOut(session: Session): boolean {
+    return (session.verification?.lockedUntil ?? 0) > Date.now();
+}
+
+/**
+ * Checks an utterance against the email address and postcode on an order.
+ * Understands spoken emails ("jordan dot lee at example dot com") and spelled-out postcodes.
+ * @param order The order being verified.
+ * @param utterance What the user said.
+ */
+export function matchesCustomer(order: Order, utterance: string): boolean {
+    const spokenEmail = utterance.toLowerCase()
+        .replace(/\s+at\s+/g, '@')
+        .replace(/\s+dot\s+/g, '.');
+    const emails = spokenEmail.match(EMAIL_PATTERN) ?? [];
+    if (emails.some(email => email === order.customer.email.toLowerCase())) {
+        return true;
+    }
+
+    // Compared without spaces or case: a postcode said in parts ("SW1A 1AA") matches as adjacent words
+    const postalCode = order.customer.postalCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const tokens = utterance.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+    for (let start = 0; start < tokens.length; start++) {
+        for (let end = start + 1; end <= Math.min(tokens.length, start + POSTCODE_MAX_PARTS); end++) {
+            if (tokens.slice(start, end).join('') === postalCode) return true;
+        }
+    }
+    return readSpelledCharacters(utterance) === postalCode;
+}
+
+/**
+ * Advances the verification dialog with the user's latest utterance.
+ * Failures are counted on the session (not the dialog), so starting over with another order
+ * does not reset them. An unknown order fails like a mismatch, so the bot never reveals
+ * which order numbers exist.
+ * @param session The session; its verification record is updated in place.
+ * @param state The active verification dialog.
+ * @param utterance What the user said.
+ * @returns 'slot_filled' with the order ID once verified.
+ */
+export async function continueVerification(session: Session, state: VerificationDialog, utterance: string): Promise<DialogStep> {
+    if (isCancellation(utterance)) {
+        return { kind: 'abandoned', answer: DIALOG_CANCELLED_ANSWER };
+    }
+    if (isNewQuestion(utterance)) {
+        return { kind: 'topic_changed' };
+    }
+
+    const verification = session.verification ??= { verifiedOrderIds: [], failures: 0 };
+    const order = await findOrder(state.orderId);
+
+    if (order && matchesCustomer(order, utterance)) {
+        verification.verifiedOrderIds.push(state.orderId);
+        verification.failures = 0;
+        console.log(`[Verification] Session ${session.id} verified for order ${state.orderId}.`);
+        return { kind: 'slot_filled', slots: { orderId: state.orderId } };
+    }
+
+    verification.failures += 1;
+    console.warn(`[Verification] Failed attempt ${verification.failures}/${VERIFICATION_MAX_FAILURES} for order ${state.orderId} (session ${session.id}).`);
+    if (verification.failures >= VERIFICATION_MAX_FAILURES) {
+        verification.lockedUntil = Date.now() + VERIFICATION_LOCKOUT_MS;
+        verification.failures = 0;
+        return { kind: 'abandoned', answer: lockedOutAnswer(session) };
+    }
+
+    return {
+        kind: 'reprompt',
+        answer: "Sorry, that doesn't match our records for this order. Please tell me the email address or postcode used when the order was placed.",
+    };
+}
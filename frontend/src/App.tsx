@@ -1,11 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Mic, Zap, MessageCircle, RefreshCw, Volume2, Link } from 'lucide-react';
 import axios from 'axios';
+import { API_URL, apiHeaders } from './api';
 
 // --- TYPE DEFINITIONS ---
+// A knowledge-base record the backend passed to the model as context
 interface Source {
+    doc_id: string;
+    question: string;
     uri: string;
     title: string;
+    score: number;
 }
 
 interface Message {
@@ -14,8 +19,19 @@ interface Message {
     sources?: Source[];
 }
 
+interface QueryResponse {
+    answer: string;
+    sources?: Source[]; 
+    sessionId?: string;
+}
+
 // --- CONFIGURATION ---
-const BACKEND_API_URL = 'https://voice-care-assistant.onrender.com/api/query';
+// The backend is set with VITE_API_URL and VITE_API_KEY (see api.ts)
+const BACKEND_API_URL = `${API_URL}/api/query`;
+const BACKEND_STREAM_URL = `${BACKEND_API_URL}/stream`;
+const BACKEND_SESSION_URL = BACKEND_API_URL.replace(/\/query$/, '/session');
+
+const GREETING = "Hello! I'm your AI care assistant. Ask me about returns, shipping, order status, or product details.";
 
 // --- GLOBAL INTERFACE DECLARATIONS (STT/TTS) ---
 interface SpeechRecognitionAlternative {
@@ -81,19 +97,78 @@ if (SpeechRecognitionClass) {
     recognition.lang = 'en-US';
 }
 
+// --- STREAMING HELPERS ---
+// A request the backend refused (e.g. rate limited or too long), with its message for the user
+class BackendRejection extends Error {}
+
+/**
+ * Streams a query's Server-Sent Events over fetch and forwards answer deltas as they arrive.
+ * Unlike EventSource, fetch can POST the query in a JSON body, send the API key as a header and read the status
+ * and JSON body of a request the backend refuses before the stream opens; that refusal rejects with a BackendRejection.
+ * A 'retract' event means the text sent so far was blocked and the deltas that follow replace it.
+ * Resolves with the final response from the 'done' event, whose answer is authoritative.
+ */
+const streamQuery = async (queryText: string, sessionId: string | null, onDelta: (text: string) => void, onRetract: () => void): Promise<QueryResponse> => {
+    const res = await fetch(BACKEND_STREAM_URL, {
+        method: 'POST',
+        headers: { ...apiHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: queryText, sessionId }),
+    });
+    if (!res.ok || !res.body) {
+        const body = await res.json().catch(() => null);
+        if (typeof body?.error === 'string') throw new BackendRejection(body.error);
+        throw new Error(`Streaming request failed with status ${res.status}.`);
+    }
+
+    // Events are separated by a blank line; each has an "event:" and a "data:" line
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const events = buffered.split('\n\n');
+        buffered = events.pop() ?? '';
+        for (const event of events) {
+            const name = event.match(/^event: (.*)$/m)?.[1];
+            const data = event.match(/^data: (.*)$/m)?.[1];
+            if (!name || data === undefined) continue;
+            const payload = JSON.parse(data);
+            if (name === 'intent') console.log(`[LOG] Detected Intent: ${payload.intent}`);
+            if (name === 'delta') onDelta(payload.text);
+            if (name === 'retract') onRetract();
+            if (name === 'done') {
+                reader.cancel();
+                return payload;
+            }
+        }
+    }
+    throw new Error('The stream ended without a final answer.');
+};
+
+/**
+ * Splits text into its complete sentences and the trailing, still-incomplete remainder.
+ */
+const splitCompleteSentences = (text: string): [string, string] => {
+    const boundary = /[.!?]["')\]]*\s+/g;
+    let end = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        end = match.index + match[0].length;
+    }
+    return [text.slice(0, end), text.slice(end)];
+};
+
 // --- APP COMPONENT ---
 const App: React.FC = () => {
-    const [messages, setMessages] = useState<Message[]>([
-        {
-            role: 'bot',
-            text: "Hello! I'm your AI care assistant. Ask me about returns, shipping, order status, or product details.",
-        },
-    ]);
+    const [messages, setMessages] = useState<Message[]>([{ role: 'bot', text: GREETING }]);
     const [isListening, setIsListening] = useState(false);
     const [isSpeaking, setIsSpeaking] = useState(false);
     const [tempTranscript, setTempTranscript] = useState('');
     const [isTyping, setIsTyping] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    // Server-side conversation id; a ref so the STT callbacks always see the latest value
+    const sessionIdRef = useRef<string | null>(null);
 
     // --- SCROLL TO BOTTOM ---
     useEffect(() => {
@@ -101,8 +176,21 @@ const App: React.FC = () => {
     }, [messages, isTyping]);
 
     // --- TTS ---
-    const speak = (text: string) => {
+    // Utterances are queued so a streamed answer can be spoken sentence by sentence.
+    // Each stop bumps the generation, so callbacks and sentences from a cancelled answer are ignored.
+    const speechGeneration = useRef(0);
+    const pendingUtterances = useRef(0);
+
+    const stopSpeech = () => {
+        speechGeneration.current += 1;
+        pendingUtterances.current = 0;
         synth.cancel();
+        setIsSpeaking(false);
+    };
+
+    const enqueueSpeech = (text: string, generation: number) => {
+        if (!text.trim() || generation !== speechGeneration.current) return;
+
         const utterance = new SpeechSynthesisUtterance(text);
         // Find a preferred voice or use default
         const voice =
@@ -110,29 +198,37 @@ const App: React.FC = () => {
             synth.getVoices()[0];
         if (voice) utterance.voice = voice;
 
+        const finished = () => {
+            if (generation !== speechGeneration.current) return;
+            pendingUtterances.current = Math.max(0, pendingUtterances.current - 1);
+            if (pendingUtterances.current === 0) setIsSpeaking(false);
+        };
+
         utterance.onstart = () => setIsSpeaking(true);
-        utterance.onend = () => setIsSpeaking(false);
+        utterance.onend = finished;
         utterance.onerror = (e) => {
             console.error('TTS error:', e);
-            setIsSpeaking(false);
+            finished();
         };
 
+        pendingUtterances.current += 1;
         synth.speak(utterance);
     };
 
+    const speak = (text: string) => {
+        stopSpeech();
+        enqueueSpeech(text, speechGeneration.current);
+    };
+
     // --- BARGE-IN HANDLER (stops bot speech) ---
     const handleBargeIn = () => {
-        if (isSpeaking) {
-            synth.cancel();
-            setIsSpeaking(false);
+        // Checked via refs/synth rather than isSpeaking, which is stale inside the STT callbacks
+        if (synth.speaking || pendingUtterances.current > 0) {
+            stopSpeech();
         }
     };
 
     // --- API ---
-    interface QueryResponse {
-        answer: string;
-        sources?: Source[]; 
-    }
 
     const processUserQuery = async (queryText: string) => {
         if (!queryText.trim()) return;
@@ -146,10 +242,52 @@ const App: React.FC = () => {
         // 2. Latency Measurement: Start timing
         const startTime = performance.now(); 
 
+        // Stop any previous answer and start a fresh speech queue for this one
+        stopSpeech();
+        let generation = speechGeneration.current;
+
+        let streamedText = '';
+        let unspokenText = '';
+
+        const showBotMessage = (message: Message) =>
+            setMessages((prev) => {
+                const last = prev[prev.length - 1];
+                // Replace the bubble being streamed into, or add a new one
+                return last?.role === 'bot' && streamedText ? [...prev.slice(0, -1), message] : [...prev, message];
+            });
+
+        const handleDelta = (delta: string) => {
+            if (!streamedText) {
+                console.log(`[LOG] First Token Latency: ${(performance.now() - startTime).toFixed(2)} ms`);
+                setIsTyping(false);
+            }
+            streamedText += delta;
+            const text = streamedText;
+            showBotMessage({ role: 'bot', text });
+
+            // Speak each sentence as soon as it is complete
+            const [complete, remainder] = splitCompleteSentences(unspokenText + delta);
+            enqueueSpeech(complete, generation);
+            unspokenText = remainder;
+        };
+
+        // The backend blocked what it streamed so far: take it off the screen, stop speaking it and start over
+        const handleRetract = () => {
+            if (streamedText) setMessages((prev) => prev.slice(0, -1));
+            streamedText = '';
+            unspokenText = '';
+            setIsTyping(true);
+            stopSpeech();
+            generation = speechGeneration.current;
+        };
+
         try {
-            const response = await axios.post<QueryResponse>(BACKEND_API_URL, { query: queryText });
-            const botAnswer = response.data.answer;
-            let botSources = response.data.sources || [];
+            const response = typeof TextDecoderStream !== 'undefined'
+                ? await streamQuery(queryText, sessionIdRef.current, handleDelta, handleRetract)
+                : (await axios.post<QueryResponse>(BACKEND_API_URL, { query: queryText, sessionId: sessionIdRef.current }, { headers: apiHeaders() })).data;
+            if (response.sessionId) sessionIdRef.current = response.sessionId;
+            const botAnswer = response.answer;
+            const botSources = response.sources || [];
 
             // 2. Latency Measurement: End timing and log
             const endTime = performance.now();
@@ -159,44 +297,28 @@ const App: React.FC = () => {
             // 1. Logging: Log bot response
             console.log(`[LOG] Bot Response: "${botAnswer}"`);
 
-
-            // --- MOCK CITATION DATA FOR DEMO + NEW INTENT ---
-            if (botSources.length === 0) {
-                 if (queryText.toLowerCase().includes('order')) {
-                    botSources = [{ 
-                        uri: "https://example.com/order-lookup/123", 
-                        title: "Order Tracking System v2.1" 
-                    }];
-                 } else if (queryText.toLowerCase().includes('return')) {
-                    botSources = [{ 
-                        uri: "https://example.com/returns-policy", 
-                        title: "Customer Returns & Refunds Policy" 
-                    }];
-                 // 3. New Intent: Product Info/Details
-                 } else if (queryText.toLowerCase().includes('product') || queryText.toLowerCase().includes('details')) { 
-                    botSources = [{ 
-                        uri: "https://example.com/product-catalog/sku-42", 
-                        title: "Detailed Product Specifications for SKU-42" 
-                    }];
-                 } else {
-                    botSources = [{
-                        uri: "https://example.com/knowledge-base/general-faq",
-                        title: "Company General FAQ"
-                    }];
-                 }
+            showBotMessage({ role: 'bot', text: botAnswer, sources: botSources });
+            // Speak only what has not been spoken yet; if the final answer replaced the streamed text
+            // (e.g. a guardrail refusal), stop and speak the replacement instead
+            const spokenText = streamedText.slice(0, streamedText.length - unspokenText.length).trimStart();
+            const finalText = botAnswer.trimStart();
+            if (finalText.startsWith(spokenText)) {
+                enqueueSpeech(finalText.slice(spokenText.length), generation);
+            } else {
+                speak(botAnswer);
             }
-            // ------------------------------------
-
-            setMessages((prev) => [...prev, { role: 'bot', text: botAnswer, sources: botSources }]);
-            speak(botAnswer);
         } catch (error) {
             // Log error with latency even on failure
             const endTime = performance.now();
             const latency = (endTime - startTime).toFixed(2);
             console.error(`[LOG] Backend API call failed (Latency: ${latency} ms):`, error); 
             
-            const errorMessage =
-                "Sorry, I'm having trouble connecting to my knowledge base. Please ensure the backend server is running.";
+            // Rejections such as a rate limit or an over-long query carry a message meant for the user
+            const errorMessage = error instanceof BackendRejection
+                ? error.message
+                : axios.isAxiosError(error) && error.response?.data?.error
+                ? error.response.data.error
+                : "Sorry, I'm having trouble connecting to my knowledge base. Please ensure the backend server is running.";
             setMessages((prev) => [...prev, { role: 'bot', text: errorMessage }]);
             speak(errorMessage);
         } finally {
@@ -204,6 +326,19 @@ const App: React.FC = () => {
         }
     };
 
+    // --- CLEAR: resets both the chat and the server-side conversation memory ---
+    const clearConversation = () => {
+        stopSpeech(); // Stop speaking on clear
+        setMessages([{ role: 'bot', text: GREETING }]);
+
+        const sessionId = sessionIdRef.current;
+        sessionIdRef.current = null;
+        if (sessionId) {
+            axios.delete(`${BACKEND_SESSION_URL}/${encodeURIComponent(sessionId)}`, { headers: apiHeaders() })
+                .catch((error) => console.error('[LOG] Failed to clear server session:', error));
+        }
+    };
+
     // --- STT (Setup only runs once) ---
     useEffect(() => {
         if (!recognition) return; 
@@ -312,15 +447,15 @@ const App: React.FC = () => {
                             {message.sources.map((source, index) => (
                                 <a 
                                     key={index} 
-                                    href={source.uri} 
+                                    href={source.uri || undefined} 
                                     target="_blank" 
                                     rel="noopener noreferrer" 
                                     style={citationLinkStyle}
-                                    title={source.title}
+                                    title={`${source.question} (relevance ${source.score.toFixed(2)})`}
                                 >
                                     <Link size={12} style={{ marginRight: '0.25rem', flexShrink: 0 }} />
                                     <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                        {source.title || new URL(source.uri).hostname}
+                                        {source.title || source.doc_id}: {source.question}
                                     </span>
                                 </a>
                             ))}
@@ -543,13 +678,7 @@ const App: React.FC = () => {
                         
                         {/* Clear Button */}
                         <button
-                            onClick={() => {
-                                synth.cancel(); // Stop speaking on clear
-                                setMessages([{
-                                    role: 'bot',
-                                    text: "Hello! I'm your AI care assistant. Ask me about returns, shipping, order status, or product details.",
-                                }]);
-                            }}
+                            onClick={clearConversation}
                             style={{
                                 padding: '1rem',
                                 borderRadius: '50%',
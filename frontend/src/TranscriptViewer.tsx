@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, AlertTriangle, ScrollText, ArrowLeft, KeyRound } from 'lucide-react';
+import axios from 'axios';
+import { API_URL } from './api';
+
+// --- TYPE DEFINITIONS (mirror backend/src/transcriptStore.ts) ---
+interface RetrievedDocument {
+    doc_id: string;
+    score: number;
+}
+
+interface TranscriptTurn {
+    sessionId: string;
+    timestamp: string;
+    query: string;
+    standaloneQuery?: string;
+    intent: string;
+    classifier?: string;
+    slots: Record<string, string | number | boolean | undefined>;
+    outcome?: 'answered' | 'no_answer';
+    retrieved: RetrievedDocument[];
+    ticketReference?: string;
+    degradation?: { service: string; kind: string };
+    guardrail?: { stage: 'input' | 'output'; reason: string; detail: string };
+    answer: string;
+    latency: { totalMs: number; classificationMs?: number; handlerMs?: number };
+    error?: string;
+}
+
+interface TranscriptSessionSummary {
+    sessionId: string;
+    startedAt: string;
+    lastActivityAt: string;
+    turnCount: number;
+    firstQuery: string;
+    intents: string[];
+    failures: number;
+}
+
+// --- CONFIGURATION ---
+const BACKEND_ADMIN_URL = `${API_URL}/admin/transcripts`;
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+// Intents the backend registers, plus 'General' for turns that failed before routing
+const INTENT_OPTIONS = ['Order_Status', 'Cancel_Order', 'Change_Address', 'Start_Return', 'Product_Info', 'Escalate', 'RAG', 'General'];
+
+const PAGE_SIZE = 50;
+
+/**
+ * Whether a turn counts as a failure: it errored, an external service failed, a guardrail blocked it, it found no answer or was escalated (same rule as the backend).
+ */
+const isFailedTurn = (turn: TranscriptTurn) => !!turn.error || !!turn.degradation || !!turn.guardrail || turn.outcome === 'no_answer' || !!turn.ticketReference;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+// --- TRANSCRIPT VIEWER ---
+// Lets support leads browse persisted conversations. Opened at #/admin; requires the backend's ADMIN_API_TOKEN.
+const TranscriptViewer: React.FC = () => {
+    const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+    const [tokenInput, setTokenInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [intent, setIntent] = useState('');
+    const [failedOnly, setFailedOnly] = useState(false);
+    const [sessions, setSessions] = useState<TranscriptSessionSummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [selected, setSelected] = useState<{ sessionId: string; turns: TranscriptTurn[] } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const authHeaders = useCallback(() => ({ Authorization: `Bearer ${token}` }), [token]);
+
+    const handleError = useCallback((err: unknown) => {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+            sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+            setToken('');
+            setError('That admin token was rejected.');
+        } else {
+            console.error('[LOG] Transcript request failed:', err);
+            setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Could not load transcripts.');
+        }
+    }, []);
+
+    // --- LOAD SESSION LIST (re-runs when the filters change) ---
+    useEffect(() => {
+        if (!token) return;
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+        if (search.trim()) params.set('search', search.trim());
+        if (intent) params.set('intent', intent);
+        if (failedOnly) params.set('failed', 'true');
+
+        // Debounced so typing in the search box does not send a request per keystroke
+        const timer = setTimeout(() => {
+            setIsLoading(true);
+            axios.get<{ sessions: TranscriptSessionSummary[]; total: number }>(`${BACKEND_ADMIN_URL}?${params}`, { headers: authHeaders() })
+                .then((res) => {
+                    setSessions(res.data.sessions);
+                    setTotal(res.data.total);
+                    setError(null);
+                })
+                .catch(handleError)
+                .finally(() => setIsLoading(false));
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [token, search, intent, failedOnly, authHeaders, handleError]);
+
+    const openSession = (sessionId: string) => {
+        axios.get<{ sessionId: string; turns: TranscriptTurn[] }>(`${BACKEND_ADMIN_URL}/${encodeURIComponent(sessionId)}`, { headers: authHeaders() })
+            .then((res) => setSelected(res.data))
+            .catch(handleError);
+    };
+
+    const saveToken = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!tokenInput.trim()) return;
+        sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput.trim());
+        setToken(tokenInput.trim());
+        setTokenInput('');
+        setError(null);
+    };
+
+    // Inline styles shared by the views
+    const pageStyle: React.CSSProperties = {
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: '#f9fafb', // bg-gray-50
+        color: '#1f2937',
+        fontFamily: 'Inter, sans-serif',
+        overflowY: 'auto',
+        padding: '1.5rem',
+        boxSizing: 'border-box',
+    };
+
+    const cardStyle: React.CSSProperties = {
+        maxWidth: '64rem',
+        margin: '0 auto',
+        backgroundColor: '#ffffff',
+        borderRadius: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+        overflow: 'hidden',
+    };
+
+    const headerStyle: React.CSSProperties = {
+        padding: '1rem',
+        backgroundColor: '#9333ea', // bg-purple-600
+        color: '#ffffff',
+        display: 'flex',
+        alignItems: 'center',
+        fontWeight: '700',
+        fontSize: '1.25rem',
+    };
+
+    const inputStyle: React.CSSProperties = {
+        padding: '0.5rem',
+        borderRadius: '0.5rem',
+        border: '1px solid #d1d5db', // gray-300
+        fontSize: '0.875rem',
+        backgroundColor: '#ffffff',
+        color: '#1f2937',
+    };
+
+    const badgeStyle = (color: string): React.CSSProperties => ({
+        fontSize: '0.7rem',
+        padding: '0.125rem 0.5rem',
+        borderRadius: '9999px',
+        backgroundColor: color,
+        color: '#1f2937',
+        marginRight: '0.25rem',
+        whiteSpace: 'nowrap',
+    });
+
+    const header = (
+        <header style={headerStyle}>
+            <ScrollText size={24} style={{ marginRight: '0.5rem' }} />
+            Conversation Transcripts
+        </header>
+    );
+
+    // --- TOKEN PROMPT ---
+    if (!token) {
+        return (
+            <div style={pageStyle}>
+                <div style={{ ...cardStyle, maxWidth: '28rem' }}>
+                    {header}
+                    <form onSubmit={saveToken} style={{ padding: '1rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                        <label style={{ fontSize: '0.875rem', display: 'flex', alignItems: 'center' }}>
+                            <KeyRound size={16} style={{ marginRight: '0.25rem' }} /> Admin token
+                        </label>
+                        <input type="password" value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} style={inputStyle} autoFocus />
+                        {error && <p style={{ color: '#dc2626', fontSize: '0.875rem' }}>{error}</p>}
+                        <button type="submit" style={{ ...inputStyle, backgroundColor: '#9333ea', color: '#ffffff', border: 'none', cursor: 'pointer' }}>
+                            View transcripts
+                        </button>
+                    </form>
+                </div>
+            </div>
+        );
+    }
+
+    // --- SESSION DETAIL ---
+    if (selected) {
+        return (
+            <div style={pageStyle}>
+                <div style={cardStyle}>
+                    {header}
+                    <div style={{ padding: '1rem' }}>
+                        <button onClick={() => setSelected(null)} style={{ ...inputStyle, display: 'flex', alignItems: 'center', cursor: 'pointer', marginBottom: '1rem' }}>
+                            <ArrowLeft size={16} style={{ marginRight: '0.25rem' }} /> Back to sessions
+                        </button>
+                        <p style={{ fontSize: '0.75rem', color: '#6b7280', marginBottom: '1rem' }}>Session {selected.sessionId}</p>
+
+                        {selected.turns.map((turn, index) => (
+                            <div key={index} style={{ borderTop: '1px solid #e5e7eb', padding: '0.75rem 0', backgroundColor: isFailedTurn(turn) ? '#fef2f2' : undefined }}>
+                                <div style={{ fontSize: '0.75rem', color: '#6b7280', marginBottom: '0.25rem' }}>
+                                    {formatTime(turn.timestamp)} · {turn.latency.totalMs} ms
+                                    {turn.latency.classificationMs !== undefined && ` (classify ${turn.latency.classificationMs} ms`}
+                                    {turn.latency.classificationMs !== undefined && turn.latency.handlerMs !== undefined && `, answer ${turn.latency.handlerMs} ms`}
+                                    {turn.latency.classificationMs !== undefined && ')'}
+                                </div>
+                                <p style={{ fontSize: '0.875rem', fontWeight: '600' }}>User: {turn.query}</p>
+                                {turn.standaloneQuery && <p style={{ fontSize: '0.75rem', color: '#6b7280' }}>Rewritten: {turn.standaloneQuery}</p>}
+                                <p style={{ fontSize: '0.875rem', whiteSpace: 'pre-wrap', margin: '0.25rem 0' }}>Assistant: {turn.answer}</p>
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginTop: '0.25rem' }}>
+                                    <span style={badgeStyle('#ede9fe')}>{turn.intent}{turn.classifier ? ` via ${turn.classifier}` : ''}</span>
+                                    {turn.outcome && <span style={badgeStyle(turn.outcome === 'no_answer' ? '#fecaca' : '#d1fae5')}>{turn.outcome}</span>}
+                                    {turn.ticketReference && <span style={badgeStyle('#fde68a')}>ticket {turn.ticketReference}</span>}
+                                    {turn.degradation && <span style={badgeStyle('#fecaca')}>{turn.degradation.service} {turn.degradation.kind}</span>}
+                                    {turn.guardrail && <span style={badgeStyle('#e9d5ff')} title={turn.guardrail.detail}>blocked {turn.guardrail.stage}: {turn.guardrail.reason}</span>}
+                                    {Object.entries(turn.slots).map(([name, value]) => (
+                                        <span key={name} style={badgeStyle('#e0f2fe')}>{name}: {String(value)}</span>
+                                    ))}
+                                    {turn.retrieved.map((doc) => (
+                                        <span key={doc.doc_id} style={badgeStyle('#f3f4f6')}>{doc.doc_id} ({doc.score.toFixed(2)})</span>
+                                    ))}
+                                </div>
+                                {turn.error && (
+                                    <p style={{ fontSize: '0.75rem', color: '#dc2626', marginTop: '0.25rem', display: 'flex', alignItems: 'center' }}>
+                                        <AlertTriangle size={12} style={{ marginRight: '0.25rem' }} /> {turn.error}
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    // --- SESSION LIST ---
+    return (
+        <div style={pageStyle}>
+            <div style={cardStyle}>
+                {header}
+                <div style={{ padding: '1rem', display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center', borderBottom: '1px solid #e5e7eb' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', flexGrow: 1 }}>
+                        <Search size={16} style={{ marginRight: '0.25rem', color: '#6b7280' }} />
+                        <input
+                            type="search"
+                            placeholder="Search queries and answers"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            style={{ ...inputStyle, flexGrow: 1 }}
+                        />
+                    </div>
+                    <select value={intent} onChange={(e) => setIntent(e.target.value)} style={inputStyle}>
+                        <option value="">All intents</option>
+                        {INTENT_OPTIONS.map((name) => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                    <label style={{ fontSize: '0.875rem', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                        <input type="checkbox" checked={failedOnly} onChange={(e) => setFailedOnly(e.target.checked)} />
+                        Failures only
+                    </label>
+                </div>
+
+                {error && <p style={{ color: '#dc2626', fontSize: '0.875rem', padding: '1rem' }}>{error}</p>}
+
+                <p style={{ fontSize: '0.75rem', color: '#6b7280', padding: '0.5rem 1rem' }}>
+                    {isLoading ? 'Loading...' : `${total} session${total === 1 ? '' : 's'}${total > sessions.length ? `, showing the ${sessions.length} most recent` : ''}`}
+                </p>
+
+                {sessions.map((session) => (
+                    <button
+                        key={session.sessionId}
+                        onClick={() => openSession(session.sessionId)}
+                        style={{ display: 'block', width: '100%', textAlign: 'left', padding: '0.75rem 1rem', border: 'none', borderTop: '1px solid #e5e7eb', backgroundColor: '#ffffff', color: '#1f2937', cursor: 'pointer' }}
+                    >
+                        <div style={{ fontSize: '0.875rem', fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{session.firstQuery}</div>
+                        <div style={{ fontSize: '0.75rem', color: '#6b7280', margin: '0.25rem 0' }}>
+                            {formatTime(session.lastActivityAt)} · {session.turnCount} turn{session.turnCount === 1 ? '' : 's'}
+                        </div>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+                            {session.intents.map((name) => <span key={name} style={badgeStyle('#ede9fe')}>{name}</span>)}
+                            {session.failures > 0 && <span style={badgeStyle('#fecaca')}>{session.failures} failed</span>}
+                        </div>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptViewer;
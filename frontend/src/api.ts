@@ -1,6 +1,12 @@
-export const API_URL = import.meta.env.VITE_API_URL;
+// Backend base URL and the client API key it expects (see CLIENT_API_KEYS in the backend).
+// The key ships in the bundle, so give the web app its own key and rely on CORS and rate limits to contain it.
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+export const API_KEY: string | undefined = import.meta.env.VITE_API_KEY;
+
+// Headers that authenticate a request to /api
+export const apiHeaders = (): Record<string, string> => (API_KEY ? { 'X-API-Key': API_KEY } : {});
 
 export async function fetchOrderStatus(orderId: string) {
-  const res = await fetch(`${API_URL}/order-status/${orderId}`);
+  const res = await fetch(`${API_URL}/order-status/${orderId}`, { headers: apiHeaders() });
   return res.json();
 }
@@ -2,9 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import TranscriptViewer from './TranscriptViewer.tsx'
+
+// The transcript viewer for support leads lives at #/admin; everything else is the assistant
+const isAdminView = window.location.hash === '#/admin'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isAdminView ? <TranscriptViewer /> : <App />}
   </StrictMode>,
 )